@@ -0,0 +1 @@
+ALTER TABLE "audit_entries" ADD COLUMN "metadata" jsonb;
\ No newline at end of file
@@ -19,7 +19,8 @@ const app = express()
 
 // Body parsing
 app.use(urlencoded({ extended: true }))
-app.use(express.json())
+// Room for a MAX_MESSAGE_LENGTH transcript at up to 3 bytes per character
+app.use(express.json({ limit: '4mb' }))
 
 // CORS configuration - customize for your domains
 app.use(
@@ -40,7 +41,14 @@ app.use(
     },
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS', 'PATCH'],
-    allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Accept', 'Origin'],
+    allowedHeaders: [
+      'Content-Type',
+      'Authorization',
+      'X-Requested-With',
+      'Accept',
+      'Origin',
+      'X-Tenant-Id',
+    ],
   })
 )
 
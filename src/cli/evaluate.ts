@@ -0,0 +1,103 @@
+/**
+ * Sanitizer evaluation CLI
+ *
+ * Usage: yarn eval <corpus.jsonl> [options]
+ *
+ *   --baseline <file>     Fail (exit 1) when a score drops below this baseline
+ *   --update-baseline     Write the current scores to the baseline file instead
+ *   --tolerance <n>       Allowed drop below the baseline (default 0)
+ *   --locales <list>      Comma-separated locale packs to enable (e.g. mx,uk)
+ *   --detectors <file>    Custom detector definitions to register first
+ *   --examples <n>        False positives/negatives listed per kind (default 10)
+ *   --json                Print the report as JSON instead of a table
+ *
+ * Exit codes: 0 ok, 1 baseline regression, 2 bad input or any other error.
+ */
+
+import * as fs from 'fs/promises'
+import { parseArgs } from 'util'
+
+import { evaluationBaselineSchema } from '../models/evaluation'
+import { localePackSchema } from '../models/inquiry'
+import { loadCustomDetectors } from '../services/detectors'
+import {
+  compareToBaseline,
+  evaluate,
+  formatReport,
+  parseCorpus,
+  toBaseline,
+} from '../services/evaluation'
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n`)
+  process.exit(2)
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      baseline: { type: 'string' },
+      'update-baseline': { type: 'boolean', default: false },
+      tolerance: { type: 'string', default: '0' },
+      locales: { type: 'string', default: '' },
+      detectors: { type: 'string' },
+      examples: { type: 'string', default: '10' },
+      json: { type: 'boolean', default: false },
+    },
+  })
+
+  const [corpusPath] = positionals
+  if (!corpusPath) fail('Usage: yarn eval <corpus.jsonl> [--baseline file] [--json]')
+
+  const tolerance = Number(values.tolerance)
+  const maxExamples = Number(values.examples)
+  if (!(tolerance >= 0 && tolerance <= 1)) fail('--tolerance must be between 0 and 1')
+  if (!Number.isInteger(maxExamples) || maxExamples < 0) {
+    fail('--examples must be a non-negative integer')
+  }
+
+  const locales = localePackSchema
+    .array()
+    .safeParse(values.locales.split(',').filter((code) => code.trim() !== ''))
+  if (!locales.success) fail(`--locales: ${locales.error.issues[0].message}`)
+
+  if (values.detectors) {
+    const loaded = await loadCustomDetectors(values.detectors)
+    if (!loaded.ok) fail(loaded.error.message)
+  }
+
+  const corpus = parseCorpus(
+    await fs.readFile(corpusPath, 'utf8').catch(() => fail(`Cannot read ${corpusPath}`))
+  )
+  if (!corpus.ok) fail(corpus.error.message)
+
+  const report = evaluate(corpus.value, { locales: locales.data, maxExamples })
+  process.stdout.write(`${values.json ? JSON.stringify(report, null, 2) : formatReport(report)}\n`)
+
+  if (!values.baseline) return
+  if (values['update-baseline']) {
+    await fs.writeFile(values.baseline, `${JSON.stringify(toBaseline(report), null, 2)}\n`)
+    process.stderr.write(`Baseline written to ${values.baseline}\n`)
+    return
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(values.baseline, 'utf8'))
+  } catch (error) {
+    fail(
+      `Cannot read baseline ${values.baseline}: ${error instanceof Error ? error.message : error}`
+    )
+  }
+  const baseline = evaluationBaselineSchema.safeParse(raw)
+  if (!baseline.success) fail(`Invalid baseline ${values.baseline}: ${baseline.error.message}`)
+
+  const regressions = compareToBaseline(report, baseline.data, tolerance)
+  if (regressions.length > 0) {
+    process.stderr.write(`Below baseline:\n${regressions.map((r) => `  ${r}`).join('\n')}\n`)
+    process.exit(1)
+  }
+}
+
+main().catch((error) => fail(error instanceof Error ? error.message : String(error)))
@@ -0,0 +1,67 @@
+import { Body, Delete, Get, Path, Post, Route, Security, SuccessResponse, Tags } from 'tsoa'
+
+import { type AppAsyncResponse, AppController, Result } from '../lib'
+import type { CustomDetectorDefinition, DetectorInfo } from '../models/detectors'
+import { type Detector, detectorRegistry, registerCustomDetector } from '../services/detectors'
+import logger from '../utils/logger'
+
+function toDetectorInfo(detector: Detector): DetectorInfo {
+  return {
+    id: detector.id,
+    type: detector.type,
+    label: detector.label,
+    source: detector.source,
+    ...(detector.locale && { locale: detector.locale }),
+    priority: detector.priority,
+    confidence: detector.confidence,
+  }
+}
+
+@Route('admin/detectors')
+@Tags('Admin')
+@Security('bearer', ['admin'])
+export class DetectorController extends AppController {
+  /**
+   * List the active PII detectors in the order the sanitizer runs them.
+   */
+  @Get('/')
+  @SuccessResponse('200', 'Detectors listed')
+  public async listDetectors(): AppAsyncResponse<DetectorInfo[]> {
+    return this.execute(async () => Result.ok(detectorRegistry.list().map(toDetectorInfo)))
+  }
+
+  /**
+   * Register a custom regex or dictionary detector.
+   * Regex rules are screened for catastrophic backtracking before activation.
+   * Matches are reported in redactedItems as type CUSTOM with the rule's label.
+   */
+  @Post('/')
+  @SuccessResponse('201', 'Detector registered')
+  public async registerDetector(
+    @Body() body: CustomDetectorDefinition
+  ): AppAsyncResponse<DetectorInfo> {
+    return this.execute(async () => {
+      const registered = registerCustomDetector(body)
+      if (!registered.ok) return registered
+
+      logger.info(`Custom detector registered: ${registered.value.id}`)
+      this.setStatus(201)
+      return Result.ok(toDetectorInfo(registered.value))
+    })
+  }
+
+  /**
+   * Remove a custom detector. Built-in detectors cannot be removed.
+   */
+  @Delete('{id}')
+  @SuccessResponse('200', 'Detector removed')
+  public async removeDetector(@Path() id: string): AppAsyncResponse<{ id: string }> {
+    return this.execute(async () => {
+      const removed = detectorRegistry.unregister(id)
+      if (!removed.ok) return removed
+
+      logger.info(`Custom detector removed: ${id}`)
+      return Result.ok({ id })
+    })
+  }
+}
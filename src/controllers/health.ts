@@ -2,7 +2,8 @@ import { Get, Request, Route, Security, SuccessResponse, Tags } from 'tsoa'
 
 import { type AppAsyncResponse, AppController, createSuccessResponse, Errors, Result } from '../lib'
 import type { HealthStatus } from '../models/health'
-import { getCircuitBreakerStatus } from '../services/mockAi'
+import { aiRouter } from '../services/ai/configured'
+import { circuitBreakerStatuses } from '../services/circuitBreakers'
 import type { AuthRequest, UserID } from '../utils/authentication'
 import logger from '../utils/logger'
 
@@ -12,23 +13,38 @@ export class HealthController extends AppController {
   /**
    * Health check endpoint with service status.
    * Returns 200 OK with service health information.
-   * Status is 'degraded' when circuit breaker is open.
+   * Status is 'degraded' when any AI provider's probe fails or any
+   * dependency's circuit breaker is open.
    */
   @Get('/')
   @SuccessResponse('200', 'Health check successful')
   public async checkHealth(): AppAsyncResponse<HealthStatus> {
-    const circuitBreakerStatus = getCircuitBreakerStatus()
-    const isCircuitOpen = circuitBreakerStatus.state === 'open'
+    const ai = await Promise.all(
+      aiRouter.list().map(async ({ provider, weight }) => {
+        const probe = await provider.probe()
+        return {
+          provider: provider.name,
+          weight,
+          status: Result.isOk(probe) ? ('available' as const) : ('unavailable' as const),
+          capabilities: provider.capabilities,
+          ...(Result.isOk(probe)
+            ? { latencyMs: probe.value.latencyMs }
+            : { error: probe.error.message }),
+        }
+      })
+    )
+    const circuitBreakers = circuitBreakerStatuses()
+    const healthy =
+      ai.every((service) => service.status === 'available') &&
+      circuitBreakers.every((breaker) => breaker.state !== 'open')
 
     return createSuccessResponse({
-      status: isCircuitOpen ? 'degraded' : 'healthy',
+      status: healthy ? 'healthy' : 'degraded',
       timestamp: new Date().toISOString(),
       uptime: process.uptime(),
       services: {
-        mockAi: {
-          status: isCircuitOpen ? 'unavailable' : 'available',
-          circuitBreaker: circuitBreakerStatus,
-        },
+        ai,
+        circuitBreakers,
       },
     })
   }
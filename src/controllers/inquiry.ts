@@ -1,11 +1,19 @@
-import { Body, Post, Route, SuccessResponse, Tags } from 'tsoa'
+import type { Request as ExRequest } from 'express'
+import { Body, Header, Post, Query, Request, Route, SuccessResponse, Tags } from 'tsoa'
 
+import { env } from '../env'
 import { type AppAsyncResponse, AppController, Errors, Result } from '../lib'
 import type { SecureInquiryRequest, SecureInquiryResponse } from '../models/inquiry'
 import { secureInquiryRequestSchema } from '../models/inquiry'
+import { aiRouter } from '../services/ai/configured'
 import { writeAuditEntry } from '../services/auditLog'
-import { callMockAi } from '../services/mockAi'
-import { sanitize } from '../services/sanitizer'
+import { sanitizeConversation } from '../services/conversation'
+import { sanitizeAnswer, WITHHELD_ANSWER } from '../services/egress'
+import { sanitizeJson } from '../services/jsonSanitizer'
+import { authorizedTenant, enforcePolicy, resolvePolicy } from '../services/policy'
+import { TokenVault } from '../services/tokenVault'
+import { identifyClient } from '../utils/authentication'
+import logger from '../utils/logger'
 
 @Route('secure-inquiry')
 @Tags('Inquiry')
@@ -14,15 +22,24 @@ export class InquiryController extends AppController {
    * Process a secure inquiry with PII sanitization.
    *
    * 1. Validates request with Zod schema
-   * 2. Sanitizes message (removes PII)
-   * 3. Calls mock AI service (with circuit breaker)
-   * 4. Writes audit log entry
-   * 5. Returns sanitized response
+   * 2. Sanitizes every turn and the context under the tenant's policy (redact, mask, allow or tokenize)
+   * 3. Rejects the inquiry when the policy blocks a detected type
+   * 4. Routes the sanitized conversation to an AI provider, retrying and failing over between providers
+   * 5. Sanitizes the AI answer, withholding it when the policy says so
+   * 6. Writes audit log entry
+   * 7. Returns sanitized response, with tokens in the AI answer rehydrated
+   *
+   * @param includeSpans Include span-level detection metadata in the response
+   * @param tenantId Tenant whose redaction policy applies; honoured only when it matches the tenant of
+   * the bearer token, which applies without the header. Gateway defaults otherwise
    */
   @Post('/')
   @SuccessResponse('200', 'Inquiry processed successfully')
   public async processInquiry(
-    @Body() body: SecureInquiryRequest
+    @Body() body: SecureInquiryRequest,
+    @Query() includeSpans?: boolean,
+    @Header('X-Tenant-Id') tenantId?: string,
+    @Request() request?: ExRequest
   ): AppAsyncResponse<SecureInquiryResponse> {
     return this.execute(async () => {
       // 1. Validate request
@@ -31,39 +48,132 @@ export class InquiryController extends AppController {
         return Result.err(Errors.validation(parsed.error.message))
       }
 
-      const { userId, message } = parsed.data
+      const { userId, message, messages, mode, context } = parsed.data
+      // A single message is a one-turn conversation
+      const conversation = messages ?? [{ role: 'user' as const, content: message! }]
+
+      // 2. Sanitize every turn and the context under the authenticated tenant's policy
+      const tenant = authorizedTenant(tenantId, request && identifyClient(request)?.tenantId)
+      if (tenantId && tenant !== tenantId) {
+        logger.warn('Ignoring X-Tenant-Id the client is not authenticated for', { tenantId })
+      }
+      const policy = resolvePolicy(
+        tenant,
+        { strategies: env.PII_MASKING, hmacKey: env.PII_HMAC_KEY },
+        env.PII_LOCALES,
+        env.PII_EGRESS_WITHHOLD
+      )
+      // The vault lives only for this request; it never leaves this handler
+      const tokenVault = mode === 'tokenize' ? new TokenVault() : undefined
+      const sanitizeOptions = {
+        tokenVault,
+        masking: policy.masking,
+        allowTypes: policy.allowTypes,
+        locales: policy.locales,
+        thresholds: env.PII_THRESHOLDS,
+      }
+      const conversationResult = sanitizeConversation(conversation, sanitizeOptions)
+      const sanitizeResult = conversationResult.turns[conversationResult.turns.length - 1]
+      const contextResult =
+        context &&
+        sanitizeJson(context, { ...sanitizeOptions, sensitiveKeys: env.PII_SENSITIVE_KEYS })
+
+      // Conversations are audited as JSON arrays of turns, with per-turn detections
+      const originalMessage = messages ? JSON.stringify(messages) : message!
+      const redactedMessage = messages
+        ? JSON.stringify(conversationResult.messages)
+        : sanitizeResult.redactedMessage
+      const auditContext = {
+        ...(policy.tenantId && { tenantId: policy.tenantId }),
+        ...(messages && {
+          turns: conversationResult.turns.map((turn, index) => ({
+            role: conversation[index].role,
+            detections: turn.spans,
+          })),
+        }),
+        ...(contextResult && { contextDetections: contextResult.detections }),
+      }
 
-      // 2. Sanitize the message
-      const sanitizeResult = sanitize(message)
+      // 3. Enforce block rules before anything reaches the AI
+      const enforced = enforcePolicy(policy, {
+        redactedItems: [
+          ...conversationResult.redactedItems,
+          ...(contextResult?.redactedItems ?? []),
+        ],
+      })
+      if (Result.isErr(enforced)) {
+        await writeAuditEntry({
+          userId,
+          originalMessage,
+          redactedMessage,
+          aiResponse: null,
+          success: false,
+          metadata: {
+            detections: sanitizeResult.spans,
+            ...auditContext,
+            reason: enforced.error.message,
+          },
+        })
+        return Result.err(enforced.error)
+      }
 
-      // 3. Call mock AI service
-      const aiResult = await callMockAi(sanitizeResult.redactedMessage)
+      // 4. Route the whole sanitized conversation, tenant's preferred providers first
+      const contextNote = contextResult && `Context: ${JSON.stringify(contextResult.value)}`
+      const aiResult = await aiRouter.complete(
+        messages
+          ? [
+              ...(contextNote ? [{ role: 'system' as const, content: contextNote }] : []),
+              ...conversationResult.messages,
+            ]
+          : contextNote
+            ? `${sanitizeResult.redactedMessage}\n\n${contextNote}`
+            : sanitizeResult.redactedMessage,
+        policy.providers,
+        Date.now() + env.AI_DEADLINE_MS
+      )
       if (Result.isErr(aiResult)) {
-        // Circuit breaker is open - return 503
-        const error = aiResult.error
-        if (error.status === 503) {
-          // Still write audit log for failed request
-          await writeAuditEntry({
-            userId,
-            originalMessage: message,
-            redactedMessage: sanitizeResult.redactedMessage,
-            aiResponse: null,
-            success: false,
-          })
-          return Result.err(error)
-        }
+        // No provider answered (open circuits, failures, deadline) - still audit the attempt
+        const { error, failovers, attempts } = aiResult.error
+        await writeAuditEntry({
+          userId,
+          originalMessage,
+          redactedMessage,
+          aiResponse: null,
+          success: false,
+          metadata: {
+            detections: sanitizeResult.spans,
+            ...auditContext,
+            reason: error.message,
+            failovers,
+            attempts,
+          },
+        })
         return Result.err(error)
       }
 
-      const aiResponse = aiResult.value
+      const { provider, model, failovers, attempts } = aiResult.value
 
-      // 4. Write audit log entry
+      // 5. Sanitize the answer before it reaches the client or the audit log
+      const egress = sanitizeAnswer(aiResult.value.answer, policy, env.PII_THRESHOLDS)
+      const withheld = egress.withheldTypes.length > 0
+
+      // 6. Write audit log entry (AI answer stays tokenized in the plaintext column)
       const auditResult = await writeAuditEntry({
         userId,
-        originalMessage: message,
-        redactedMessage: sanitizeResult.redactedMessage,
-        aiResponse: aiResponse.answer,
+        originalMessage,
+        redactedMessage,
+        aiResponse: egress.redactedMessage,
         success: true,
+        metadata: {
+          detections: sanitizeResult.spans,
+          responseDetections: egress.spans,
+          ...(withheld && { responseWithheld: true }),
+          ...auditContext,
+          provider,
+          model,
+          ...(failovers.length > 0 && { failovers }),
+          attempts,
+        },
       })
 
       if (Result.isErr(auditResult)) {
@@ -71,12 +181,35 @@ export class InquiryController extends AppController {
         // The main operation succeeded
       }
 
-      // 5. Return response
+      // 7. Return response
+      const answer = withheld
+        ? WITHHELD_ANSWER
+        : tokenVault
+          ? tokenVault.rehydrate(egress.redactedMessage)
+          : egress.redactedMessage
       return Result.ok({
         userId,
         redactedMessage: sanitizeResult.redactedMessage,
-        aiResponse: aiResponse.answer,
-        redactedItems: sanitizeResult.redactedItems,
+        ...(messages && { redactedMessages: conversationResult.messages }),
+        aiResponse: answer,
+        redactedItems: conversationResult.redactedItems,
+        responseRedactedItems: egress.redactedItems,
+        ...(withheld && { responseWithheld: true }),
+        ...(contextResult && {
+          redactedContext: contextResult.value as { [key: string]: unknown },
+          contextRedactedItems: contextResult.redactedItems,
+        }),
+        ...(includeSpans && { spans: sanitizeResult.spans, responseSpans: egress.spans }),
+        ...(includeSpans &&
+          messages && { turnSpans: conversationResult.turns.map((turn) => turn.spans) }),
+        ...(includeSpans && contextResult && { contextDetections: contextResult.detections }),
+        servedBy: {
+          provider,
+          model,
+          ...(failovers.length > 0 && {
+            failedOver: failovers.map((failover) => failover.provider),
+          }),
+        },
       })
     })
   }
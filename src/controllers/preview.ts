@@ -0,0 +1,93 @@
+import type { Request as ExRequest } from 'express'
+import {
+  Body,
+  Header,
+  Middlewares,
+  Post,
+  Request,
+  Route,
+  Security,
+  SuccessResponse,
+  Tags,
+} from 'tsoa'
+
+import { env } from '../env'
+import {
+  type AppAsyncResponse,
+  AppController,
+  Errors,
+  rateLimit,
+  RateLimiter,
+  Result,
+} from '../lib'
+import type {
+  SanitizePreview,
+  SanitizePreviewRequest,
+  SanitizePreviewResponse,
+} from '../models/preview'
+import { sanitizePreviewRequestSchema } from '../models/preview'
+import { authorizedTenant, findViolation, resolvePolicy } from '../services/policy'
+import { sanitize } from '../services/sanitizer'
+import { TokenVault } from '../services/tokenVault'
+import type { AuthRequest } from '../utils/authentication'
+
+// Separate budget from /secure-inquiry, counted per authenticated developer
+const previewLimiter = new RateLimiter({
+  limit: env.PREVIEW_RATE_LIMIT,
+  windowMs: env.PREVIEW_RATE_WINDOW_MS,
+})
+
+@Route('sanitize')
+@Tags('Sanitize')
+@Security('bearer', ['developer'])
+@Middlewares(rateLimit(previewLimiter, (req) => (req as AuthRequest).user?.id ?? req.ip))
+export class PreviewController extends AppController {
+  /**
+   * Preview how one message or a batch would be sanitized under the tenant's
+   * policy, including whether the policy would block it.
+   * Nothing is sent to the AI provider and nothing is written to the audit log.
+   *
+   * @param tenantId Tenant whose redaction policy applies; honoured only when it matches the tenant of
+   * the bearer token, which applies without the header. Gateway defaults otherwise
+   */
+  @Post('preview')
+  @SuccessResponse('200', 'Preview generated')
+  public async previewSanitization(
+    @Body() body: SanitizePreviewRequest,
+    @Header('X-Tenant-Id') tenantId?: string,
+    @Request() request?: ExRequest
+  ): AppAsyncResponse<SanitizePreviewResponse> {
+    return this.execute(async () => {
+      const parsed = sanitizePreviewRequestSchema.safeParse(body)
+      if (!parsed.success) {
+        return Result.err(Errors.validation(parsed.error.message))
+      }
+
+      const { message, messages, mode } = parsed.data
+      const policy = resolvePolicy(
+        authorizedTenant(tenantId, (request as AuthRequest | undefined)?.user?.tenantId),
+        { strategies: env.PII_MASKING, hmacKey: env.PII_HMAC_KEY },
+        env.PII_LOCALES,
+        env.PII_EGRESS_WITHHOLD
+      )
+
+      const previews = (messages ?? [message!]).map((text): SanitizePreview => {
+        const result = sanitize(text, {
+          tokenVault: mode === 'tokenize' ? new TokenVault() : undefined,
+          masking: policy.masking,
+          allowTypes: policy.allowTypes,
+          locales: policy.locales,
+          thresholds: env.PII_THRESHOLDS,
+        })
+        const violation = findViolation(policy, result)
+
+        return {
+          ...result,
+          decision: violation ? { action: 'block', violation } : { action: 'proceed' },
+        }
+      })
+
+      return Result.ok({ tenantId: policy.tenantId, previews })
+    })
+  }
+}
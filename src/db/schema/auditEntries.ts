@@ -1,7 +1,9 @@
-import { boolean, index, integer, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core'
+import { boolean, index, integer, jsonb, pgTable, text, timestamp, uuid } from 'drizzle-orm/pg-core'
 import { createInsertSchema, createSelectSchema } from 'drizzle-zod'
 import type { z } from 'zod'
 
+import type { AuditMetadata } from '../../models/contracts'
+
 /**
  * Audit entries table for secure inquiry logging.
  * Designed for high-load chat applications (e.g., bank messaging).
@@ -10,6 +12,7 @@ import type { z } from 'zod'
  * - Encrypted original messages (per-user HKDF-derived keys)
  * - Fast retrieval by userId + timestamp
  * - Key versioning for rotation support
+ * - PII-free JSON metadata (span-level detections) for review and tuning
  */
 export const auditEntries = pgTable(
   'audit_entries',
@@ -21,6 +24,7 @@ export const auditEntries = pgTable(
     aiResponse: text('ai_response'), // Nullable - null if request failed
     success: boolean('success').notNull().default(true),
     keyVersion: integer('key_version').notNull().default(1),
+    metadata: jsonb('metadata').$type<AuditMetadata>(), // PII-free detection details
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => [
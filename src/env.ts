@@ -1,6 +1,12 @@
 import dotenv from 'dotenv'
 import { z } from 'zod'
 
+import {
+  configurableMaskingStrategySchema,
+  localePackSchema,
+  piiTypeSchema,
+} from './models/inquiry'
+
 dotenv.config()
 
 /**
@@ -43,6 +49,193 @@ const EnvSchema = z.object({
       }
       return num
     }),
+  // HS256 secret for bearer tokens on /sanitize/preview and /admin routes; those routes answer 501 without it
+  JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters').optional(),
+  // Requests per window and client for POST /sanitize/preview (default: 60 per minute)
+  PREVIEW_RATE_LIMIT: z
+    .string()
+    .optional()
+    .default('60')
+    .transform((val) => {
+      const num = parseInt(val, 10)
+      if (isNaN(num) || num < 1) {
+        throw new Error('PREVIEW_RATE_LIMIT must be a positive integer')
+      }
+      return num
+    }),
+  PREVIEW_RATE_WINDOW_MS: z
+    .string()
+    .optional()
+    .default('60000')
+    .transform((val) => {
+      const num = parseInt(val, 10)
+      if (isNaN(num) || num < 1) {
+        throw new Error('PREVIEW_RATE_WINDOW_MS must be a positive integer')
+      }
+      return num
+    }),
+  // Per-type masking strategies, e.g. "CREDIT_CARD:partial,EMAIL:partial,SSN:hash"
+  // Types not listed are fully redacted
+  PII_MASKING: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) => {
+      const entries = val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const [type, strategy] = entry.split(':').map((part) => part.trim())
+          const parsedType = piiTypeSchema.safeParse(type)
+          const parsedStrategy = configurableMaskingStrategySchema.safeParse(strategy)
+          if (!parsedType.success || !parsedStrategy.success) {
+            throw new Error(`PII_MASKING entry "${entry}" must be TYPE:strategy`)
+          }
+          return [parsedType.data, parsedStrategy.data] as const
+        })
+      return Object.fromEntries(entries)
+    }),
+  // National identifier packs to detect, e.g. "mx,es" (mx, ca, uk, es); tenants may override
+  PII_LOCALES: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const parsed = localePackSchema.safeParse(entry)
+          if (!parsed.success) {
+            throw new Error(`PII_LOCALES entry "${entry}" must be one of mx, ca, uk, es`)
+          }
+          return parsed.data
+        })
+    ),
+  // Types that withhold the whole AI answer when it contains them, e.g. "SECRET,CREDIT_CARD"
+  PII_EGRESS_WITHHOLD: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const parsed = piiTypeSchema.safeParse(entry)
+          if (!parsed.success) {
+            throw new Error(`PII_EGRESS_WITHHOLD entry "${entry}" is not a PII type`)
+          }
+          return parsed.data
+        })
+    ),
+  // JSON keys whose values are always redacted in a request context (default: email,ssn,dob)
+  PII_SENSITIVE_KEYS: z
+    .string()
+    .optional()
+    .default('email,ssn,dob')
+    .transform((val) =>
+      val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+    ),
+  // Per-type score thresholds "TYPE:redact:flag", e.g. "SSN:0.7:0.4,CREDIT_CARD:0.8:0.5"
+  // Types not listed redact at 0.6 and flag at 0.3
+  PII_THRESHOLDS: z
+    .string()
+    .optional()
+    .default('')
+    .transform((val) => {
+      const entries = val
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean)
+        .map((entry) => {
+          const [type, redact, flag = redact] = entry.split(':').map((part) => part.trim())
+          const parsedType = piiTypeSchema.safeParse(type)
+          const threshold = { redact: Number(redact), flag: Number(flag) }
+          const valid =
+            parsedType.success &&
+            threshold.flag >= 0 &&
+            threshold.flag <= threshold.redact &&
+            threshold.redact <= 1
+          if (!valid) {
+            throw new Error(`PII_THRESHOLDS entry "${entry}" must be TYPE:redact[:flag] within 0-1`)
+          }
+          return [parsedType.data, threshold] as const
+        })
+      return Object.fromEntries(entries)
+    }),
+  // HMAC key for 'hash' and 'format-preserving' masking (64-char hex = 32 bytes)
+  PII_HMAC_KEY: z
+    .string()
+    .length(64, 'PII_HMAC_KEY must be a 64-character hex string')
+    .regex(/^[0-9a-fA-F]+$/, 'PII_HMAC_KEY must be a valid hex string')
+    .optional(),
+  // Optional JSON file with custom detector definitions, loaded at startup
+  CUSTOM_DETECTORS_PATH: z.string().min(1).optional(),
+  // Optional JSON file with per-tenant redaction policies, loaded at startup
+  TENANT_POLICIES_PATH: z.string().min(1).optional(),
+  // AI backend for /secure-inquiry: the built-in mock or an OpenAI-compatible API
+  AI_PROVIDER: z.enum(['mock', 'openai']).optional().default('mock'),
+  // API root for AI_PROVIDER=openai, e.g. https://api.openai.com/v1
+  AI_BASE_URL: z.url().optional(),
+  AI_API_KEY: z.string().min(1).optional(),
+  AI_MODEL: z.string().min(1).optional(),
+  // Optional JSON file listing several providers with weights, for failover; replaces AI_PROVIDER
+  AI_PROVIDERS_PATH: z.string().min(1).optional(),
+  // Time limit for one completion (default: 30000)
+  AI_TIMEOUT_MS: z
+    .string()
+    .optional()
+    .default('30000')
+    .transform((val) => {
+      const num = parseInt(val, 10)
+      if (isNaN(num) || num < 1) {
+        throw new Error('AI_TIMEOUT_MS must be a positive integer')
+      }
+      return num
+    }),
+  // Time limit for answering one inquiry, retries and failovers included (default: 60000)
+  AI_DEADLINE_MS: z
+    .string()
+    .optional()
+    .default('60000')
+    .transform((val) => {
+      const num = parseInt(val, 10)
+      if (isNaN(num) || num < 1) {
+        throw new Error('AI_DEADLINE_MS must be a positive integer')
+      }
+      return num
+    }),
+  // Calls per provider before failing over, the first included; 1 disables retries (default: 3)
+  AI_RETRY_MAX_ATTEMPTS: z
+    .string()
+    .optional()
+    .default('3')
+    .transform((val) => {
+      const num = parseInt(val, 10)
+      if (isNaN(num) || num < 1 || num > 10) {
+        throw new Error('AI_RETRY_MAX_ATTEMPTS must be an integer between 1 and 10')
+      }
+      return num
+    }),
+  // Retries allowed per AI request across all providers, over a 10 s window (default: 0.2)
+  AI_RETRY_BUDGET: z
+    .string()
+    .optional()
+    .default('0.2')
+    .transform((val) => {
+      const num = Number(val)
+      if (isNaN(num) || num < 0 || num > 1) {
+        throw new Error('AI_RETRY_BUDGET must be a number between 0 and 1')
+      }
+      return num
+    }),
 })
 
 const _env = EnvSchema.safeParse(process.env)
@@ -58,6 +251,21 @@ if (_env.data.APP_ENV === 'production' && !_env.data.AUDIT_MASTER_KEY) {
   process.exit(1)
 }
 
+// Keyed masking strategies cannot run without a key
+const keyedMasking = Object.values(_env.data.PII_MASKING).some(
+  (strategy) => strategy === 'hash' || strategy === 'format-preserving'
+)
+if (keyedMasking && !_env.data.PII_HMAC_KEY) {
+  console.error('PII_HMAC_KEY is required when PII_MASKING uses hash or format-preserving')
+  process.exit(1)
+}
+
+// A remote provider needs somewhere to send requests and a model to ask
+if (_env.data.AI_PROVIDER === 'openai' && (!_env.data.AI_BASE_URL || !_env.data.AI_MODEL)) {
+  console.error('AI_BASE_URL and AI_MODEL are required when AI_PROVIDER is openai')
+  process.exit(1)
+}
+
 // Warn if using auto-generated key in development
 if (_env.data.APP_ENV === 'development' && !_env.data.AUDIT_MASTER_KEY) {
   console.warn('[SECURITY WARNING] Using auto-generated encryption key in development mode')
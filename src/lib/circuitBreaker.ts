@@ -0,0 +1,389 @@
+/**
+ * Circuit Breaker
+ *
+ * Guards calls to a dependency that may go down. After enough failures the
+ * circuit opens and calls fail fast with a 503 instead of piling onto the
+ * dependency; once `resetTimeout` has passed, a limited number of trial
+ * calls go through (half-open) and decide whether it closes again or
+ * reopens. Wraps any AsyncResult-returning function; which errors count
+ * against the dependency is up to a classifier, so a 4xx caused by the
+ * caller never trips it.
+ *
+ * By default the circuit opens after a run of consecutive failures. With a
+ * sliding window it opens instead when the failure rate or slow-call rate
+ * over the last N calls (or the last N milliseconds) crosses a threshold,
+ * which also catches a dependency that fails often but not in a row.
+ */
+
+import { EventEmitter } from 'events'
+
+import { AppError } from './error'
+import { type AsyncResult, Result, type ResultType } from './result'
+
+/** Circuit breaker states */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/** Rate-based policy over recent calls */
+export interface SlidingWindowOptions {
+  /** 'count': the last `size` calls; 'time': calls in the last `size` milliseconds */
+  type: 'count' | 'time'
+  size: number
+  /** Calls the window must hold before its rates can open the circuit (default 10) */
+  minimumCalls?: number
+  /** Failure rate, 0-1, that opens the circuit (default 0.5) */
+  failureRateThreshold?: number
+  /** Slow-call rate, 0-1, that opens the circuit (default 1) */
+  slowCallRateThreshold?: number
+  /** Calls taking at least this long count as slow, in ms (default 60000) */
+  slowCallDuration?: number
+}
+
+export interface CircuitBreakerOptions {
+  /** Identifies the breaker in status reports and events, e.g. 'database' */
+  name: string
+  /** Consecutive failures that open the circuit, without a window (default 3) */
+  failureThreshold?: number
+  /** Open on failure or slow-call rate over a sliding window instead of consecutive failures */
+  window?: SlidingWindowOptions
+  /** How long the circuit stays open before trial calls are let through, in ms (default 30000) */
+  resetTimeout?: number
+  /** Trial calls allowed at once while half-open (default 1) */
+  halfOpenMaxCalls?: number
+  /** Successful trial calls that close the circuit again (default 1) */
+  successThreshold?: number
+  /** Whether an error counts against the dependency (default: any 5xx) */
+  isFailure?: (error: AppError) => boolean
+}
+
+/** What a sliding window holds; rates are 0 while it is empty */
+export interface CircuitWindowStats {
+  type: 'count' | 'time'
+  size: number
+  minimumCalls: number
+  calls: number
+  failedCalls: number
+  slowCalls: number
+  failureRate: number
+  slowCallRate: number
+}
+
+/** Circuit breaker status for monitoring */
+export interface CircuitBreakerStatus {
+  name: string
+  state: CircuitState
+  /** Consecutive failures while closed */
+  failures: number
+  lastFailure: string | null // ISO 8601
+  lastSuccess: string | null // ISO 8601
+  /** Window the rates were measured over; kept as it was while the circuit is open */
+  window?: CircuitWindowStats
+}
+
+/** Emitted with `stateChange` on every transition */
+export interface CircuitStateChange {
+  name: string
+  from: CircuitState
+  to: CircuitState
+  /** When the transition happened (epoch milliseconds) */
+  at: number
+  /** Consecutive failures at the time of the transition */
+  failures: number
+  /** Window at the time of the transition */
+  window?: CircuitWindowStats
+}
+
+export interface CircuitBreakerEvents {
+  stateChange: [change: CircuitStateChange]
+}
+
+/** Ticket for one call; outcomes from before the last transition are stale */
+interface Permit {
+  generation: number
+  trial: boolean
+}
+
+type Outcome = 'success' | 'failure' | 'ignored'
+
+const isServerError = (error: AppError) => error.status >= 500
+
+// A time-based window is kept as this many buckets, each a slice of its size
+const TIME_BUCKETS = 20
+
+interface Bucket {
+  /** Slice of time the bucket covers (time windows only) */
+  epoch: number
+  calls: number
+  failedCalls: number
+  slowCalls: number
+}
+
+/** Outcomes of recent calls, in a ring of buckets with constant memory */
+class SlidingWindow {
+  readonly #options: Required<SlidingWindowOptions>
+  readonly #buckets: Bucket[]
+  readonly #bucketMs: number
+  #next = 0
+
+  constructor(options: SlidingWindowOptions) {
+    this.#options = {
+      type: options.type,
+      size: options.size,
+      minimumCalls: options.minimumCalls ?? 10,
+      failureRateThreshold: options.failureRateThreshold ?? 0.5,
+      slowCallRateThreshold: options.slowCallRateThreshold ?? 1,
+      slowCallDuration: options.slowCallDuration ?? 60_000,
+    }
+    // A count window holds one call per bucket
+    const length = options.type === 'count' ? Math.max(1, options.size) : TIME_BUCKETS
+    this.#buckets = Array.from({ length }, () => ({
+      epoch: -Infinity,
+      calls: 0,
+      failedCalls: 0,
+      slowCalls: 0,
+    }))
+    this.#bucketMs = options.size / TIME_BUCKETS
+  }
+
+  isSlow(duration: number): boolean {
+    return duration >= this.#options.slowCallDuration
+  }
+
+  record(now: number, failed: boolean, slow: boolean): void {
+    let bucket: Bucket
+    if (this.#options.type === 'count') {
+      bucket = this.#buckets[this.#next]
+      this.#next = (this.#next + 1) % this.#buckets.length
+      Object.assign(bucket, { epoch: 0, calls: 0, failedCalls: 0, slowCalls: 0 })
+    } else {
+      const epoch = Math.floor(now / this.#bucketMs)
+      bucket = this.#buckets[epoch % this.#buckets.length]
+      if (bucket.epoch !== epoch) {
+        Object.assign(bucket, { epoch, calls: 0, failedCalls: 0, slowCalls: 0 })
+      }
+    }
+    bucket.calls++
+    if (failed) bucket.failedCalls++
+    if (slow) bucket.slowCalls++
+  }
+
+  /** Whether the rates over the window call for opening the circuit */
+  exceeded(now: number): boolean {
+    const stats = this.stats(now)
+    return (
+      stats.calls >= this.#options.minimumCalls &&
+      (stats.failureRate >= this.#options.failureRateThreshold ||
+        stats.slowCallRate >= this.#options.slowCallRateThreshold)
+    )
+  }
+
+  stats(now: number): CircuitWindowStats {
+    const { type, size, minimumCalls } = this.#options
+    const oldest =
+      type === 'time' ? Math.floor(now / this.#bucketMs) - this.#buckets.length + 1 : -Infinity
+    let calls = 0
+    let failedCalls = 0
+    let slowCalls = 0
+    for (const bucket of this.#buckets) {
+      if (bucket.epoch < oldest) continue
+      calls += bucket.calls
+      failedCalls += bucket.failedCalls
+      slowCalls += bucket.slowCalls
+    }
+    return {
+      type,
+      size,
+      minimumCalls,
+      calls,
+      failedCalls,
+      slowCalls,
+      failureRate: calls === 0 ? 0 : failedCalls / calls,
+      slowCallRate: calls === 0 ? 0 : slowCalls / calls,
+    }
+  }
+
+  clear(): void {
+    for (const bucket of this.#buckets) {
+      Object.assign(bucket, { epoch: -Infinity, calls: 0, failedCalls: 0, slowCalls: 0 })
+    }
+    this.#next = 0
+  }
+}
+
+export class CircuitBreaker extends EventEmitter<CircuitBreakerEvents> {
+  readonly name: string
+  readonly #failureThreshold: number
+  readonly #resetTimeout: number
+  readonly #halfOpenMaxCalls: number
+  readonly #successThreshold: number
+  readonly #isFailure: (error: AppError) => boolean
+  readonly #window: SlidingWindow | null
+
+  #state: CircuitState = 'closed'
+  #generation = 0
+  #failures = 0
+  #openedAt = 0
+  #trials = 0
+  #trialSuccesses = 0
+  #lastFailure: number | null = null
+  #lastSuccess: number | null = null
+
+  constructor(
+    options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now
+  ) {
+    super()
+    this.name = options.name
+    this.#failureThreshold = options.failureThreshold ?? 3
+    this.#resetTimeout = options.resetTimeout ?? 30_000
+    this.#halfOpenMaxCalls = options.halfOpenMaxCalls ?? 1
+    this.#successThreshold = options.successThreshold ?? 1
+    this.#isFailure = options.isFailure ?? isServerError
+    this.#window = options.window ? new SlidingWindow(options.window) : null
+  }
+
+  /** Current state; an open circuit past its reset timeout reads as half-open */
+  get state(): CircuitState {
+    if (this.#state === 'open' && this.now() - this.#openedAt >= this.#resetTimeout) {
+      this.#transition('half-open')
+    }
+    return this.#state
+  }
+
+  /**
+   * Run a call through the breaker.
+   * A thrown error counts as a failure and is rethrown.
+   *
+   * @param fn - Call to the guarded dependency
+   * @returns The call's result, or a 503 without calling when the circuit rejects it
+   */
+  async execute<T>(fn: () => AsyncResult<T>): AsyncResult<T> {
+    const permit = this.#acquire()
+    if (!permit) return Result.err(this.#rejection())
+
+    const startedAt = this.now()
+    let result: ResultType<T>
+    try {
+      result = await fn()
+    } catch (error) {
+      this.#record(permit, 'failure', this.now() - startedAt)
+      throw error
+    }
+
+    this.#record(
+      permit,
+      Result.isOk(result) ? 'success' : this.#isFailure(result.error) ? 'failure' : 'ignored',
+      this.now() - startedAt
+    )
+    return result
+  }
+
+  /**
+   * Guard a function so every call goes through the breaker.
+   *
+   * @param fn - Function calling the dependency
+   * @returns Function with the same signature
+   */
+  wrap<A extends unknown[], T>(fn: (...args: A) => AsyncResult<T>): (...args: A) => AsyncResult<T> {
+    return (...args) => this.execute(() => fn(...args))
+  }
+
+  /** Close the circuit and forget its history. */
+  reset(): void {
+    if (this.#state !== 'closed') this.#transition('closed')
+    this.#failures = 0
+    this.#lastFailure = null
+    this.#lastSuccess = null
+    this.#window?.clear()
+  }
+
+  status(): CircuitBreakerStatus {
+    const state = this.state
+    return {
+      name: this.name,
+      state,
+      failures: this.#failures,
+      lastFailure: this.#lastFailure === null ? null : new Date(this.#lastFailure).toISOString(),
+      lastSuccess: this.#lastSuccess === null ? null : new Date(this.#lastSuccess).toISOString(),
+      ...(this.#window && { window: this.#windowStats() }),
+    }
+  }
+
+  #acquire(): Permit | null {
+    const state = this.state
+    if (state === 'open') return null
+    if (state === 'half-open') {
+      if (this.#trials >= this.#halfOpenMaxCalls) return null
+      this.#trials++
+    }
+    return { generation: this.#generation, trial: state === 'half-open' }
+  }
+
+  #record(permit: Permit, outcome: Outcome, duration: number): void {
+    const now = this.now()
+    if (outcome === 'success') this.#lastSuccess = now
+    if (outcome === 'failure') this.#lastFailure = now
+    // A call that started before the last transition says nothing about the current state
+    if (permit.generation !== this.#generation) return
+    if (permit.trial) this.#trials--
+    if (outcome === 'ignored') return
+
+    const window = this.#window
+    const failed = outcome === 'failure'
+    const slow = window?.isSlow(duration) ?? false
+
+    if (this.#state === 'half-open') {
+      // Under a window policy a slow trial is as bad as a failed one
+      if (failed || slow) {
+        this.#transition('open')
+      } else if (++this.#trialSuccesses >= this.#successThreshold) {
+        this.#transition('closed')
+      }
+      return
+    }
+
+    this.#failures = failed ? this.#failures + 1 : 0
+    if (window) {
+      window.record(now, failed, slow)
+      if (window.exceeded(now)) this.#transition('open')
+    } else if (this.#failures >= this.#failureThreshold) {
+      this.#transition('open')
+    }
+  }
+
+  #transition(to: CircuitState): void {
+    const from = this.#state
+    const at = this.now()
+    this.#state = to
+    this.#generation++
+    this.#trials = 0
+    this.#trialSuccesses = 0
+    if (to === 'open') this.#openedAt = at
+    this.emit('stateChange', {
+      name: this.name,
+      from,
+      to,
+      at,
+      failures: this.#failures,
+      ...(this.#window && { window: this.#windowStats() }),
+    })
+    if (to === 'closed') {
+      this.#failures = 0
+      this.#window?.clear()
+    }
+  }
+
+  /** Window stats; frozen at the moment the circuit opened, while it stays open */
+  #windowStats(): CircuitWindowStats | undefined {
+    if (!this.#window) return undefined
+    return this.#window.stats(this.#state === 'closed' ? this.now() : this.#openedAt)
+  }
+
+  #rejection(): AppError {
+    return new AppError({
+      status: 503,
+      code: 'SERVICE_UNAVAILABLE',
+      message: 'Service Busy',
+      details: { circuitBreaker: this.name },
+    })
+  }
+}
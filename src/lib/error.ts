@@ -9,6 +9,8 @@ export interface ErrorInfo {
   status: number
   code: string
   message: string
+  /** Structured, machine-readable context (e.g. the policy rule that was violated) */
+  details?: { [key: string]: unknown }
 }
 
 /** Custom error class for application errors. */
@@ -16,22 +18,32 @@ export class AppError extends Error {
   public status: number
   public code: string
   public timestamp: string
+  /** Context for logs and audit entries; only the publicDetails keys reach the client */
+  public details?: { [key: string]: unknown }
+  /** Keys of details returned in the error response (none by default) */
+  public publicDetails: string[]
 
   constructor({
     status,
     code,
     message,
     timestamp = new Date().toISOString(),
+    details,
+    publicDetails = [],
   }: {
     status: number
     code: string
     message: string
     timestamp?: string
+    details?: { [key: string]: unknown }
+    publicDetails?: string[]
   }) {
     super(message)
     this.status = status
     this.code = code
     this.timestamp = timestamp
+    this.details = details
+    this.publicDetails = publicDetails
 
     Object.setPrototypeOf(this, AppError.prototype)
     if (Error.captureStackTrace) {
@@ -39,11 +51,16 @@ export class AppError extends Error {
     }
   }
 
+  /** Status, code and message for the client, with only the public details. */
   public toResponse(): ErrorInfo {
+    const details = Object.entries(this.details ?? {}).filter(([key]) =>
+      this.publicDetails.includes(key)
+    )
     return {
       status: this.status,
       code: this.code,
       message: this.message,
+      ...(details.length > 0 && { details: Object.fromEntries(details) }),
     }
   }
 }
@@ -56,6 +73,8 @@ export const Errors = {
   notFound: (message: string) => new AppError({ status: 404, code: 'NOT_FOUND', message }),
   conflict: (message: string) => new AppError({ status: 409, code: 'CONFLICT', message }),
   validation: (message: string) => new AppError({ status: 422, code: 'VALIDATION_ERROR', message }),
+  tooManyRequests: (message: string) =>
+    new AppError({ status: 429, code: 'RATE_LIMITED', message }),
   internal: (message: string) =>
     new AppError({ status: 500, code: 'INTERNAL_SERVER_ERROR', message }),
 } as const
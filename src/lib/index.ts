@@ -16,6 +16,26 @@ export { AppError, Errors } from './error'
 export type { AsyncResult, Err, Ok, ResultType } from './result'
 export { Result } from './result'
 
+// Circuit breaking
+export type {
+  CircuitBreakerEvents,
+  CircuitBreakerOptions,
+  CircuitBreakerStatus,
+  CircuitState,
+  CircuitStateChange,
+  CircuitWindowStats,
+  SlidingWindowOptions,
+} from './circuitBreaker'
+export { CircuitBreaker } from './circuitBreaker'
+
+// Rate limiting
+export type { RateLimitDecision, RateLimitOptions } from './rateLimit'
+export { rateLimit, RateLimiter } from './rateLimit'
+
+// Retries
+export type { Retried, RetryAttempt, RetryBudgetOptions, RetryOptions, RetryTiming } from './retry'
+export { RetryBudget, RetryPolicy } from './retry'
+
 // Response types and helpers
 export type {
   AppAsyncPaginatedResponse,
@@ -0,0 +1,95 @@
+/**
+ * Rate Limiting
+ *
+ * Fixed-window request counting per client key, plus an Express middleware
+ * for attaching a limiter to TSOA routes with `@Middlewares`. Each limiter
+ * instance keeps its own counters, so routes limited by different instances
+ * never share a budget.
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+
+import { Errors } from './error'
+
+export interface RateLimitOptions {
+  /** Requests allowed per window and key */
+  limit: number
+  /** Window length in milliseconds */
+  windowMs: number
+}
+
+/** Outcome of counting one request */
+export interface RateLimitDecision {
+  allowed: boolean
+  /** Requests left in the current window */
+  remaining: number
+  /** When the current window ends (epoch milliseconds) */
+  resetAt: number
+}
+
+// Expired windows are swept once this many keys are tracked
+const SWEEP_THRESHOLD = 10_000
+
+export class RateLimiter {
+  readonly #windows = new Map<string, { count: number; resetAt: number }>()
+
+  constructor(
+    readonly options: RateLimitOptions,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Count a request for a key.
+   *
+   * @param key - Client identity (user id, IP address)
+   * @returns Whether the request is within the limit
+   */
+  hit(key: string): RateLimitDecision {
+    const now = this.now()
+    if (this.#windows.size >= SWEEP_THRESHOLD) this.#sweep(now)
+
+    let window = this.#windows.get(key)
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + this.options.windowMs }
+      this.#windows.set(key, window)
+    }
+
+    window.count++
+    return {
+      allowed: window.count <= this.options.limit,
+      remaining: Math.max(0, this.options.limit - window.count),
+      resetAt: window.resetAt,
+    }
+  }
+
+  #sweep(now: number): void {
+    for (const [key, window] of this.#windows) {
+      if (window.resetAt <= now) this.#windows.delete(key)
+    }
+  }
+}
+
+/**
+ * Express middleware enforcing a limiter. Rejected requests get a 429
+ * with a Retry-After header through the global error handler.
+ *
+ * @param limiter - Limiter holding this route's budget
+ * @param keyOf - Client key for a request (defaults to the remote address)
+ */
+export function rateLimit(
+  limiter: RateLimiter,
+  keyOf: (req: Request) => string | undefined = (req) => req.ip
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const decision = limiter.hit(keyOf(req) ?? 'unknown')
+    const retryAfter = Math.ceil((decision.resetAt - Date.now()) / 1000)
+
+    res.setHeader('RateLimit-Limit', limiter.options.limit)
+    res.setHeader('RateLimit-Remaining', decision.remaining)
+    res.setHeader('RateLimit-Reset', Math.max(0, retryAfter))
+
+    if (decision.allowed) return next()
+    res.setHeader('Retry-After', Math.max(1, retryAfter))
+    next(Errors.tooManyRequests(`Rate limit of ${limiter.options.limit} requests exceeded`))
+  }
+}
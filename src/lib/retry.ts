@@ -0,0 +1,196 @@
+/**
+ * Retries
+ *
+ * Retries a failed AsyncResult call with exponential backoff and full
+ * jitter: before retry n the caller waits a random time between 0 and
+ * min(maxDelayMs, baseDelayMs * 2^(n-1)), which spreads the retries of many
+ * callers out instead of sending them in waves. Only errors the classifier
+ * calls retryable are retried, never past the caller's deadline, and a
+ * shared RetryBudget caps retries at a fraction of requests so an outage
+ * does not multiply the load on the failing dependency.
+ */
+
+import type { AppError } from './error'
+import type { AsyncResult, ResultType } from './result'
+import { Result } from './result'
+
+export interface RetryBudgetOptions {
+  /** Retries allowed per request, e.g. 0.2 for one retry per five requests */
+  ratio: number
+  /** Retries allowed per window regardless of traffic, so a quiet service can still retry (default 10) */
+  minRetries?: number
+  /** How far back requests and retries are counted, in ms (default 10000) */
+  windowMs?: number
+}
+
+export interface RetryOptions {
+  /** Attempts per call, the first included (default 3) */
+  maxAttempts?: number
+  /** Backoff cap before the first retry, in ms; doubles with each retry (default 100) */
+  baseDelayMs?: number
+  /** Largest backoff cap, in ms (default 2000) */
+  maxDelayMs?: number
+  /** Whether an error is worth retrying (default: 502, 503 and 504) */
+  isRetryable?: (error: AppError) => boolean
+  /** Budget shared with other policies; unlimited without one */
+  budget?: RetryBudget
+}
+
+/** Passed to `onRetry` before each retry */
+export interface RetryAttempt {
+  /** Number of the attempt about to be made (2 for the first retry) */
+  attempt: number
+  delayMs: number
+  /** Error of the previous attempt */
+  error: AppError
+}
+
+/** Outcome of a call with retries */
+export interface Retried<T> {
+  /** Result of the last attempt */
+  result: ResultType<T>
+  attempts: number
+}
+
+/** Clock, sleep and randomness; replaceable in tests */
+export interface RetryTiming {
+  now: () => number
+  sleep: (ms: number) => Promise<void>
+  /** Uniform in [0, 1) */
+  random: () => number
+}
+
+const systemTiming: RetryTiming = {
+  now: Date.now,
+  sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+  random: Math.random,
+}
+
+const isTransient = (error: AppError) => [502, 503, 504].includes(error.status)
+
+// The budget window is kept as this many buckets, each a slice of it
+const BUDGET_BUCKETS = 10
+
+/**
+ * Caps retries at a ratio of requests over a sliding time window. One
+ * budget is meant to be shared by every policy calling the same dependency
+ * (or set of dependencies), so it limits retries across all callers.
+ */
+export class RetryBudget {
+  readonly #ratio: number
+  readonly #minRetries: number
+  readonly #bucketMs: number
+  readonly #buckets = Array.from({ length: BUDGET_BUCKETS }, () => ({
+    epoch: -Infinity,
+    requests: 0,
+    retries: 0,
+  }))
+
+  constructor(
+    options: RetryBudgetOptions,
+    private readonly now: () => number = Date.now
+  ) {
+    this.#ratio = options.ratio
+    this.#minRetries = options.minRetries ?? 10
+    this.#bucketMs = (options.windowMs ?? 10_000) / BUDGET_BUCKETS
+  }
+
+  /** Count a request (a call's first attempt). */
+  recordRequest(): void {
+    this.#bucket().requests++
+  }
+
+  /**
+   * Spend one retry if the budget allows it.
+   *
+   * @returns Whether the retry may be made
+   */
+  tryRetry(): boolean {
+    const { requests, retries } = this.totals()
+    if (retries + 1 > this.#minRetries + this.#ratio * requests) return false
+    this.#bucket().retries++
+    return true
+  }
+
+  /** Requests and retries in the current window. */
+  totals(): { requests: number; retries: number } {
+    const oldest = Math.floor(this.now() / this.#bucketMs) - BUDGET_BUCKETS + 1
+    let requests = 0
+    let retries = 0
+    for (const bucket of this.#buckets) {
+      if (bucket.epoch < oldest) continue
+      requests += bucket.requests
+      retries += bucket.retries
+    }
+    return { requests, retries }
+  }
+
+  #bucket() {
+    const epoch = Math.floor(this.now() / this.#bucketMs)
+    const bucket = this.#buckets[epoch % BUDGET_BUCKETS]
+    if (bucket.epoch !== epoch) Object.assign(bucket, { epoch, requests: 0, retries: 0 })
+    return bucket
+  }
+}
+
+export class RetryPolicy {
+  readonly #maxAttempts: number
+  readonly #baseDelayMs: number
+  readonly #maxDelayMs: number
+  readonly #isRetryable: (error: AppError) => boolean
+  readonly #budget: RetryBudget | undefined
+
+  constructor(
+    options: RetryOptions = {},
+    private readonly timing: RetryTiming = systemTiming
+  ) {
+    this.#maxAttempts = Math.max(1, options.maxAttempts ?? 3)
+    this.#baseDelayMs = options.baseDelayMs ?? 100
+    this.#maxDelayMs = options.maxDelayMs ?? 2000
+    this.#isRetryable = options.isRetryable ?? isTransient
+    this.#budget = options.budget
+  }
+
+  /**
+   * Backoff before an attempt, with full jitter.
+   *
+   * @param retry - 1 for the first retry
+   * @returns Random delay in ms between 0 and the capped exponential backoff
+   */
+  delay(retry: number): number {
+    const cap = Math.min(this.#maxDelayMs, this.#baseDelayMs * 2 ** (retry - 1))
+    return Math.floor(this.timing.random() * cap)
+  }
+
+  /**
+   * Make a call, retrying retryable errors while attempts, deadline and budget allow.
+   * A retry is skipped rather than cut short when its backoff would end past the deadline.
+   *
+   * @param fn - The call; receives the attempt number, starting at 1
+   * @param deadline - Epoch ms after which no retry starts
+   * @param onRetry - Told about each retry before its backoff
+   * @returns Result of the last attempt and the number of attempts made
+   */
+  async execute<T>(
+    fn: (attempt: number) => AsyncResult<T>,
+    deadline = Infinity,
+    onRetry?: (retry: RetryAttempt) => void
+  ): Promise<Retried<T>> {
+    this.#budget?.recordRequest()
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await fn(attempt)
+      if (Result.isOk(result) || attempt >= this.#maxAttempts || !this.#isRetryable(result.error)) {
+        return { result, attempts: attempt }
+      }
+
+      const delayMs = this.delay(attempt)
+      if (this.timing.now() + delayMs >= deadline || (this.#budget && !this.#budget.tryRetry())) {
+        return { result, attempts: attempt }
+      }
+
+      onRetry?.({ attempt: attempt + 1, delayMs, error: result.error })
+      await this.timing.sleep(delayMs)
+    }
+  }
+}
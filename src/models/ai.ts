@@ -0,0 +1,75 @@
+import { z } from 'zod'
+
+/**
+ * AI provider names: lowercase kebab-case, shown on /health and in audit entries
+ */
+export const aiProviderNameSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9-]{0,62}$/, 'provider name must be lowercase kebab-case (1-63 characters)')
+
+/**
+ * Share of traffic relative to the other providers; 0 takes failover traffic only
+ */
+const weightSchema = z.number().min(0).max(1000)
+
+/**
+ * The built-in mock provider
+ */
+export interface MockProviderDefinition {
+  provider: 'mock'
+  /** Defaults to 'mock' */
+  name?: string
+  /** Defaults to 1 */
+  weight?: number
+}
+
+/**
+ * An OpenAI-compatible chat-completions API
+ */
+export interface OpenAiProviderDefinition {
+  provider: 'openai'
+  /** Defaults to 'openai' */
+  name?: string
+  /** API root, e.g. https://api.openai.com/v1 */
+  baseUrl: string
+  /** Environment variable holding the API key, so keys stay out of the file */
+  apiKeyEnv?: string
+  model: string
+  /** Time limit for one completion in ms; defaults to AI_TIMEOUT_MS */
+  timeoutMs?: number
+  /** Defaults to 1 */
+  weight?: number
+}
+
+export type AiProviderDefinition = MockProviderDefinition | OpenAiProviderDefinition
+
+export const aiProviderDefinitionSchema = z.discriminatedUnion('provider', [
+  z.object({
+    provider: z.literal('mock'),
+    name: aiProviderNameSchema.optional(),
+    weight: weightSchema.optional(),
+  }),
+  z.object({
+    provider: z.literal('openai'),
+    name: aiProviderNameSchema.optional(),
+    baseUrl: z.url(),
+    apiKeyEnv: z.string().min(1).optional(),
+    model: z.string().min(1),
+    timeoutMs: z.number().int().positive().optional(),
+    weight: weightSchema.optional(),
+  }),
+])
+
+/**
+ * AI_PROVIDERS_PATH file: providers in failover order
+ */
+export const aiProviderFileSchema = z
+  .array(aiProviderDefinitionSchema)
+  .min(1, 'at least one provider is required')
+  .refine(
+    (definitions) => {
+      const names = definitions.map((definition) => definition.name ?? definition.provider)
+      return new Set(names).size === names.length
+    },
+    { message: 'provider names must be unique' }
+  )
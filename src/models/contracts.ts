@@ -26,12 +26,101 @@ export interface EncryptedPayload {
 // ============================================================
 
 /** Types of PII that can be detected and redacted */
-export type PIIType = 'EMAIL' | 'CREDIT_CARD' | 'SSN'
+export type PIIType =
+  | 'EMAIL'
+  | 'CREDIT_CARD'
+  | 'SSN'
+  | 'PHONE'
+  | 'IBAN'
+  | 'ROUTING_NUMBER'
+  | 'BANK_ACCOUNT'
+  | 'SECRET'
+  | 'MX_CURP'
+  | 'MX_RFC'
+  | 'MX_CLABE'
+  | 'CA_SIN'
+  | 'UK_NINO'
+  | 'ES_DNI'
+  | 'ES_NIE'
+  | 'CUSTOM'
+
+/** Country packs of national identifiers (mx: CURP, RFC, CLABE; ca: SIN; uk: NI number; es: DNI, NIE) */
+export type LocalePack = 'mx' | 'ca' | 'uk' | 'es'
+
+/** Card networks recognised from the IIN/BIN prefix of a credit card number */
+export type CardBrand =
+  | 'VISA'
+  | 'MASTERCARD'
+  | 'AMEX'
+  | 'DISCOVER'
+  | 'DINERS_CLUB'
+  | 'JCB'
+  | 'UNIONPAY'
+  | 'MAESTRO'
+
+/** Kinds of credentials recognised by the SECRET detector */
+export type SecretSubtype =
+  | 'PRIVATE_KEY'
+  | 'JWT'
+  | 'AWS_ACCESS_KEY'
+  | 'AWS_SECRET_KEY'
+  | 'API_KEY'
+  | 'PASSWORD'
+  | 'HIGH_ENTROPY'
+
+/** How a detected value was replaced ('none': left in place by an 'allow' policy) */
+export type MaskingStrategy =
+  | 'redact'
+  | 'partial'
+  | 'hash'
+  | 'format-preserving'
+  | 'tokenize'
+  | 'none'
 
 /** Summary of redacted items by type */
 export interface RedactedItem {
   type: PIIType
+  /** Label of the custom detector rule (CUSTOM only) */
+  label?: string
   count: number
+  /** Strategy applied to every item of this type */
+  strategy: MaskingStrategy
+  /** Brand of each redacted card, in message order (CREDIT_CARD only) */
+  brands?: CardBrand[]
+  /** Kind of each redacted secret, in message order (SECRET only) */
+  subtypes?: SecretSubtype[]
+}
+
+/** A single detection; never carries the raw value */
+export interface DetectionSpan {
+  type: PIIType
+  /** Label of the custom detector rule (CUSTOM only) */
+  label?: string
+  /** Id of the detector rule that fired */
+  detector: string
+  /** Context-adjusted confidence score in [0, 1] */
+  confidence: number
+  /** Offsets of the detected value in the original message (end exclusive) */
+  start: number
+  end: number
+  /** Offsets of its replacement in the redacted message (end exclusive) */
+  redactedStart: number
+  redactedEnd: number
+  strategy: MaskingStrategy
+  brand?: CardBrand
+  subtype?: SecretSubtype
+  /** Scored below the redaction threshold: reported but left in place */
+  flagged?: boolean
+}
+
+/** Detections in one field of a JSON payload */
+export interface JsonDetection {
+  /** JSON pointer (RFC 6901) to the field */
+  path: string
+  /** Detections in the field's string value, with offsets into that string */
+  spans?: DetectionSpan[]
+  /** Set when the whole value was redacted because its key is always sensitive */
+  sensitiveKey?: string
 }
 
 /** Result of sanitizing a message */
@@ -40,21 +129,21 @@ export interface SanitizeResult {
   redactedMessage: string
   /** Summary of what was redacted */
   redactedItems: RedactedItem[]
+  /** Every detection in original-message order */
+  spans: DetectionSpan[]
 }
 
 // ============================================================
-// CIRCUIT BREAKER TYPES
+// AI SERVICE TYPES
 // ============================================================
 
-/** Circuit breaker states */
-export type CircuitBreakerState = 'closed' | 'open' | 'half-open'
+/** Who authored a conversation turn */
+export type ConversationRole = 'system' | 'user' | 'assistant'
 
-/** Circuit breaker status for monitoring */
-export interface CircuitBreakerStatus {
-  state: CircuitBreakerState
-  failures: number
-  lastFailure: string | null // ISO 8601
-  lastSuccess: string | null // ISO 8601
+/** One turn of a conversation sent to the AI */
+export interface ConversationMessage {
+  role: ConversationRole
+  content: string
 }
 
 /** Mock AI response */
@@ -63,6 +152,15 @@ export interface MockAIResponse {
   processingTime: number
 }
 
+/** A provider the router passed over before one answered (or all gave up) */
+export interface AiFailover {
+  provider: string
+  /** Error code it failed with; CIRCUIT_OPEN when it was skipped without a call */
+  code: string
+  /** Calls made to it, retries included */
+  attempts: number
+}
+
 // ============================================================
 // AUDIT LOG TYPES
 // ============================================================
@@ -77,4 +175,37 @@ export interface AuditEntry {
   aiResponse: string | null
   success: boolean
   keyVersion: number
+  metadata: AuditMetadata | null
+}
+
+/** One sanitized conversation turn in an audit entry */
+export interface AuditTurn {
+  role: ConversationRole
+  detections: DetectionSpan[]
+}
+
+/** Structured, PII-free details stored alongside an audit entry */
+export interface AuditMetadata {
+  /** Span-level detections from sanitizing the original message (the last turn of a conversation) */
+  detections: DetectionSpan[]
+  /** Role and detections of every turn, for conversation inquiries */
+  turns?: AuditTurn[]
+  /** Tenant whose policy was applied, when the request named a known tenant */
+  tenantId?: string
+  /** Why the inquiry failed (e.g. the policy rule that blocked it) */
+  reason?: string
+  /** Detections in the request context, by JSON pointer */
+  contextDetections?: JsonDetection[]
+  /** Span-level detections from sanitizing the AI answer */
+  responseDetections?: DetectionSpan[]
+  /** The AI answer was withheld from the client because of what it contained */
+  responseWithheld?: boolean
+  /** AI provider that answered */
+  provider?: string
+  /** Model that answered, as reported by the provider */
+  model?: string
+  /** Providers tried before the one that answered, or every provider tried when none did */
+  failovers?: AiFailover[]
+  /** AI calls made for the request across every provider, retries included */
+  attempts?: number
 }
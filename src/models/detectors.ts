@@ -0,0 +1,98 @@
+import { z } from 'zod'
+
+import { type LocalePack, piiTypeSchema } from './inquiry'
+
+/**
+ * Custom detector rule ids: lowercase kebab-case
+ */
+const detectorIdSchema = z
+  .string()
+  .regex(/^[a-z][a-z0-9-]{1,62}$/, 'id must be lowercase kebab-case (2-63 characters)')
+
+/**
+ * Custom detector labels: uppercase snake-case, distinct from built-in PII types
+ */
+const detectorLabelSchema = z
+  .string()
+  .regex(/^[A-Z][A-Z0-9_]{1,39}$/, 'label must be UPPER_SNAKE_CASE (2-40 characters)')
+  .refine((label) => !piiTypeSchema.safeParse(label).success, {
+    message: 'label must not shadow a built-in PII type',
+  })
+
+/**
+ * Custom detector matching a regular expression
+ */
+export interface RegexDetectorDefinition {
+  kind: 'regex'
+  id: string
+  label: string
+  /**
+   * Regex source; screened for catastrophic backtracking before activation.
+   * Matches longer than 256 characters may be cut short or missed.
+   */
+  pattern: string
+  /** Optional flags: i, m, s, u */
+  flags?: string
+  /** Confidence reported for matches (default 0.9) */
+  confidence?: number
+  /** Overlap rank against other detectors (default 0; built-ins use 10-90) */
+  priority?: number
+}
+
+/**
+ * Custom detector matching whole words from a list of terms
+ */
+export interface DictionaryDetectorDefinition {
+  kind: 'dictionary'
+  id: string
+  label: string
+  terms: string[]
+  /** Default false */
+  caseSensitive?: boolean
+  /** Confidence reported for matches (default 0.9) */
+  confidence?: number
+  /** Overlap rank against other detectors (default 0; built-ins use 10-90) */
+  priority?: number
+}
+
+export type CustomDetectorDefinition = RegexDetectorDefinition | DictionaryDetectorDefinition
+
+export const customDetectorDefinitionSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('regex'),
+    id: detectorIdSchema,
+    label: detectorLabelSchema,
+    pattern: z.string().min(1, 'pattern is required'),
+    flags: z.string().optional(),
+    confidence: z.number().min(0).max(1).optional(),
+    priority: z.number().int().min(0).max(100).optional(),
+  }),
+  z.object({
+    kind: z.literal('dictionary'),
+    id: detectorIdSchema,
+    label: detectorLabelSchema,
+    terms: z
+      .array(z.string().trim().min(1).max(200))
+      .min(1, 'terms must not be empty')
+      .max(1000, 'terms must not exceed 1000 entries'),
+    caseSensitive: z.boolean().optional(),
+    confidence: z.number().min(0).max(1).optional(),
+    priority: z.number().int().min(0).max(100).optional(),
+  }),
+])
+
+export const customDetectorFileSchema = z.array(customDetectorDefinitionSchema)
+
+/**
+ * Detector summary returned by the admin API
+ */
+export interface DetectorInfo {
+  id: string
+  type: string
+  label: string
+  source: 'builtin' | 'custom'
+  /** Locale pack the detector belongs to, if any */
+  locale?: LocalePack
+  priority: number
+  confidence: number
+}
@@ -0,0 +1,103 @@
+import { z } from 'zod'
+
+import { type PIIType, piiTypeSchema } from './inquiry'
+
+/**
+ * A value a corpus sample expects the sanitizer to find
+ */
+export interface ExpectedSpan {
+  /** Offsets into the sample text (end exclusive) */
+  start: number
+  end: number
+  type: PIIType
+  /** Custom detector label (CUSTOM only) */
+  label?: string
+}
+
+/**
+ * One line of a labeled JSONL corpus
+ */
+export interface CorpusSample {
+  /** Optional identifier shown in reports instead of the line number */
+  id?: string
+  text: string
+  /** Every value that should be redacted; empty for negative samples */
+  spans: ExpectedSpan[]
+}
+
+export const corpusSampleSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    text: z.string(),
+    spans: z.array(
+      z
+        .object({
+          start: z.number().int().min(0),
+          end: z.number().int().min(0),
+          type: piiTypeSchema,
+          label: z.string().min(1).optional(),
+        })
+        .refine((span) => span.end > span.start, { message: 'end must be greater than start' })
+    ),
+  })
+  .refine((sample) => sample.spans.every((span) => span.end <= sample.text.length), {
+    message: 'span offsets must lie within text',
+  })
+
+/**
+ * Detection counts and scores for one type (or `ALL` for the micro average)
+ */
+export interface TypeMetrics {
+  /** PII type, custom label, or `ALL` */
+  type: string
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+  precision: number
+  recall: number
+  f1: number
+}
+
+/**
+ * A wrong detection or a missed value
+ */
+export interface EvaluationMiss {
+  /** Sample id, or its 1-based line number in the corpus */
+  sample: string
+  type: string
+  start: number
+  end: number
+  /** The value itself */
+  text: string
+  /** Confidence of the detection (false positives only) */
+  confidence?: number
+}
+
+/**
+ * Outcome of running the sanitizer over a corpus
+ */
+export interface EvaluationReport {
+  samples: number
+  /** Micro-averaged over every type */
+  overall: TypeMetrics
+  /** Per type, alphabetical */
+  types: TypeMetrics[]
+  /** Most confident wrong detections first */
+  falsePositives: EvaluationMiss[]
+  /** Misses of the lowest-recall types first */
+  falseNegatives: EvaluationMiss[]
+}
+
+/**
+ * Minimum scores per type (`ALL` for the overall scores)
+ */
+export interface EvaluationBaseline {
+  [type: string]: { precision: number; recall: number; f1: number }
+}
+
+const scoreSchema = z.number().min(0).max(1)
+
+export const evaluationBaselineSchema = z.record(
+  z.string(),
+  z.object({ precision: scoreSchema, recall: scoreSchema, f1: scoreSchema })
+)
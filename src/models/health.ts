@@ -7,36 +7,109 @@ export type CircuitBreakerState = 'closed' | 'open' | 'half-open'
 
 export const circuitBreakerStateSchema = z.enum(['closed', 'open', 'half-open'])
 
+/**
+ * Recent calls a sliding-window breaker bases its decision on
+ */
+export interface CircuitBreakerWindowStats {
+  /** 'count': the last `size` calls; 'time': calls in the last `size` milliseconds */
+  type: 'count' | 'time'
+  size: number
+  /** Calls needed before the rates can open the circuit */
+  minimumCalls: number
+  calls: number
+  failedCalls: number
+  slowCalls: number
+  /** 0-1 */
+  failureRate: number
+  /** 0-1 */
+  slowCallRate: number
+}
+
+export const circuitBreakerWindowStatsSchema = z.object({
+  type: z.enum(['count', 'time']),
+  size: z.number().int().min(1),
+  minimumCalls: z.number().int().min(0),
+  calls: z.number().int().min(0),
+  failedCalls: z.number().int().min(0),
+  slowCalls: z.number().int().min(0),
+  failureRate: z.number().min(0).max(1),
+  slowCallRate: z.number().min(0).max(1),
+})
+
 /**
  * Circuit breaker status for monitoring
  */
 export interface CircuitBreakerStatus {
+  /** Guarded dependency, e.g. 'database' or 'ai:openai' */
+  name: string
   state: CircuitBreakerState
+  /** Consecutive failures while closed */
   failures: number
   lastFailure: string | null
   lastSuccess: string | null
+  /** Sliding-window rates, for breakers with a window policy; frozen while open */
+  window?: CircuitBreakerWindowStats
 }
 
 export const circuitBreakerStatusSchema = z.object({
+  name: z.string(),
   state: circuitBreakerStateSchema,
   failures: z.number().int().min(0),
   lastFailure: z.string().nullable(),
   lastSuccess: z.string().nullable(),
+  window: circuitBreakerWindowStatsSchema.optional(),
+})
+
+/**
+ * What an AI provider can do
+ */
+export interface AiCapabilities {
+  /** Model the provider answers with */
+  model: string
+  /** Accepts multi-turn conversations rather than one flattened message */
+  conversations: boolean
+  /** Can stream answers as they are generated */
+  streaming: boolean
+}
+
+export const aiCapabilitiesSchema = z.object({
+  model: z.string(),
+  conversations: z.boolean(),
+  streaming: z.boolean(),
 })
 
 /**
- * Mock AI service status
+ * AI provider status, from a health probe
  */
-export interface MockAiServiceStatus {
+export interface AiServiceStatus {
+  provider: string
+  /** Share of traffic relative to the other providers; 0 takes failover traffic only */
+  weight: number
   status: 'available' | 'unavailable'
-  circuitBreaker: CircuitBreakerStatus
+  capabilities: AiCapabilities
+  /** Round trip of the probe, when it succeeded */
+  latencyMs?: number
+  /** Why the probe failed */
+  error?: string
 }
 
+export const aiServiceStatusSchema = z.object({
+  provider: z.string(),
+  weight: z.number().min(0),
+  status: z.enum(['available', 'unavailable']),
+  capabilities: aiCapabilitiesSchema,
+  latencyMs: z.number().min(0).optional(),
+  error: z.string().optional(),
+})
+
 /**
  * Services status container
  */
 export interface ServicesStatus {
-  mockAi: MockAiServiceStatus
+  /** Every AI provider, in failover order */
+  ai: AiServiceStatus[]
+  /** Every dependency's breaker: one per AI provider and one for the database */
+  circuitBreakers: CircuitBreakerStatus[]
 }
 
 /**
@@ -54,9 +127,7 @@ export const healthStatusSchema = z.object({
   timestamp: z.string(),
   uptime: z.number(),
   services: z.object({
-    mockAi: z.object({
-      status: z.enum(['available', 'unavailable']),
-      circuitBreaker: circuitBreakerStatusSchema,
-    }),
+    ai: z.array(aiServiceStatusSchema),
+    circuitBreakers: z.array(circuitBreakerStatusSchema),
   }),
 })
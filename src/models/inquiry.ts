@@ -3,37 +3,325 @@ import { z } from 'zod'
 /**
  * PII types that can be detected and redacted
  */
-export type PIIType = 'EMAIL' | 'CREDIT_CARD' | 'SSN'
+export type PIIType =
+  | 'EMAIL'
+  | 'CREDIT_CARD'
+  | 'SSN'
+  | 'PHONE'
+  | 'IBAN'
+  | 'ROUTING_NUMBER'
+  | 'BANK_ACCOUNT'
+  | 'SECRET'
+  | 'MX_CURP'
+  | 'MX_RFC'
+  | 'MX_CLABE'
+  | 'CA_SIN'
+  | 'UK_NINO'
+  | 'ES_DNI'
+  | 'ES_NIE'
+  | 'CUSTOM'
 
-export const piiTypeSchema = z.enum(['EMAIL', 'CREDIT_CARD', 'SSN'])
+export const piiTypeSchema = z.enum([
+  'EMAIL',
+  'CREDIT_CARD',
+  'SSN',
+  'PHONE',
+  'IBAN',
+  'ROUTING_NUMBER',
+  'BANK_ACCOUNT',
+  'SECRET',
+  'MX_CURP',
+  'MX_RFC',
+  'MX_CLABE',
+  'CA_SIN',
+  'UK_NINO',
+  'ES_DNI',
+  'ES_NIE',
+  'CUSTOM',
+])
+
+/**
+ * Country packs of national identifiers that can be switched on
+ * (mx: CURP, RFC, CLABE; ca: SIN; uk: NI number; es: DNI, NIE)
+ */
+export type LocalePack = 'mx' | 'ca' | 'uk' | 'es'
+
+export const localePackSchema = z.enum(['mx', 'ca', 'uk', 'es'])
+
+/**
+ * Card networks recognised from the IIN/BIN prefix
+ */
+export type CardBrand =
+  | 'VISA'
+  | 'MASTERCARD'
+  | 'AMEX'
+  | 'DISCOVER'
+  | 'DINERS_CLUB'
+  | 'JCB'
+  | 'UNIONPAY'
+  | 'MAESTRO'
+
+export const cardBrandSchema = z.enum([
+  'VISA',
+  'MASTERCARD',
+  'AMEX',
+  'DISCOVER',
+  'DINERS_CLUB',
+  'JCB',
+  'UNIONPAY',
+  'MAESTRO',
+])
+
+/**
+ * Kinds of credentials recognised by the SECRET detector
+ */
+export type SecretSubtype =
+  | 'PRIVATE_KEY'
+  | 'JWT'
+  | 'AWS_ACCESS_KEY'
+  | 'AWS_SECRET_KEY'
+  | 'API_KEY'
+  | 'PASSWORD'
+  | 'HIGH_ENTROPY'
+
+export const secretSubtypeSchema = z.enum([
+  'PRIVATE_KEY',
+  'JWT',
+  'AWS_ACCESS_KEY',
+  'AWS_SECRET_KEY',
+  'API_KEY',
+  'PASSWORD',
+  'HIGH_ENTROPY',
+])
+
+/**
+ * How a detected value was replaced in the redacted message
+ * ('none': left in place because the tenant policy allows its type)
+ */
+export type MaskingStrategy =
+  | 'redact'
+  | 'partial'
+  | 'hash'
+  | 'format-preserving'
+  | 'tokenize'
+  | 'none'
+
+export const maskingStrategySchema = z.enum([
+  'redact',
+  'partial',
+  'hash',
+  'format-preserving',
+  'tokenize',
+  'none',
+])
+
+/**
+ * Strategies that can be configured per type; 'tokenize' is chosen per request
+ * and 'none' follows from an 'allow' policy
+ */
+export const configurableMaskingStrategySchema = maskingStrategySchema.exclude(['tokenize', 'none'])
 
 /**
  * Summary of redacted items by type
  */
 export interface RedactedItem {
   type: PIIType
+  /** Label of the custom detector rule (CUSTOM only) */
+  label?: string
   count: number
+  /** Strategy applied to every item of this type */
+  strategy: MaskingStrategy
+  /** Brand of each redacted card, in message order (CREDIT_CARD only) */
+  brands?: CardBrand[]
+  /** Kind of each redacted secret, in message order (SECRET only) */
+  subtypes?: SecretSubtype[]
 }
 
 export const redactedItemSchema = z.object({
   type: piiTypeSchema,
+  label: z.string().optional(),
   count: z.number().int().nonnegative(),
+  strategy: maskingStrategySchema,
+  brands: z.array(cardBrandSchema).optional(),
+  subtypes: z.array(secretSubtypeSchema).optional(),
+})
+
+/**
+ * A single detection with its offsets; never carries the raw value
+ */
+export interface DetectionSpan {
+  type: PIIType
+  /** Label of the custom detector rule (CUSTOM only) */
+  label?: string
+  /** Id of the detector rule that fired */
+  detector: string
+  /** Context-adjusted confidence score in [0, 1] */
+  confidence: number
+  /** Offsets of the detected value in the original message (end exclusive) */
+  start: number
+  end: number
+  /** Offsets of its replacement in the redacted message (end exclusive) */
+  redactedStart: number
+  redactedEnd: number
+  strategy: MaskingStrategy
+  brand?: CardBrand
+  subtype?: SecretSubtype
+  /** Scored below the redaction threshold: reported but left in place */
+  flagged?: boolean
+}
+
+export const detectionSpanSchema = z.object({
+  type: piiTypeSchema,
+  label: z.string().optional(),
+  detector: z.string(),
+  confidence: z.number().min(0).max(1),
+  start: z.number().int().nonnegative(),
+  end: z.number().int().nonnegative(),
+  redactedStart: z.number().int().nonnegative(),
+  redactedEnd: z.number().int().nonnegative(),
+  strategy: maskingStrategySchema,
+  brand: cardBrandSchema.optional(),
+  subtype: secretSubtypeSchema.optional(),
+  flagged: z.boolean().optional(),
+})
+
+/**
+ * Detections in one field of a JSON payload
+ */
+export interface JsonDetection {
+  /** JSON pointer (RFC 6901) to the field */
+  path: string
+  /** Detections in the field's string value, with offsets into that string */
+  spans?: DetectionSpan[]
+  /** Set when the whole value was redacted because its key is always sensitive */
+  sensitiveKey?: string
+}
+
+export const jsonDetectionSchema = z.object({
+  path: z.string(),
+  spans: z.array(detectionSpanSchema).optional(),
+  sensitiveKey: z.string().optional(),
 })
 
 /**
- * Request body for POST /secure-inquiry
+ * How detected PII is replaced in the message sent to the AI
+ * - redact: every value becomes `<REDACTED: TYPE>`
+ * - tokenize: each distinct value becomes an indexed token (`<EMAIL_1>`),
+ *   restored in the AI answer before it is returned
+ */
+export type RedactionMode = 'redact' | 'tokenize'
+
+export const redactionModeSchema = z.enum(['redact', 'tokenize'])
+
+/**
+ * Who authored a conversation turn
+ */
+export type ConversationRole = 'system' | 'user' | 'assistant'
+
+export const conversationRoleSchema = z.enum(['system', 'user', 'assistant'])
+
+/**
+ * One turn of a conversation
+ */
+export interface ConversationMessage {
+  role: ConversationRole
+  content: string
+}
+
+const MAX_TURNS = 50
+
+/** Longest message, or whole conversation, accepted for sanitization (characters) */
+export const MAX_MESSAGE_LENGTH = 1_000_000
+
+const messageContentSchema = z
+  .string()
+  .min(1, 'message is required')
+  .max(MAX_MESSAGE_LENGTH, `message must not exceed ${MAX_MESSAGE_LENGTH} characters`)
+
+export const conversationMessageSchema = z.object({
+  role: conversationRoleSchema,
+  content: messageContentSchema,
+})
+
+/**
+ * Request body for POST /secure-inquiry: exactly one of `message` or `messages`
  */
 export interface SecureInquiryRequest {
   userId: string
-  message: string
+  /** Single-message inquiry */
+  message?: string
+  /** Whole conversation, oldest turn first; every turn is sanitized */
+  messages?: ConversationMessage[]
+  /** Defaults to 'redact' */
+  mode?: RedactionMode
+  /** Structured data sent with the message (form fields, tool-call arguments); sanitized leaf by leaf */
+  context?: { [key: string]: unknown }
+}
+
+const MAX_CONTEXT_DEPTH = 16
+const MAX_CONTEXT_LENGTH = 50000
+
+/** Nesting depth of a JSON value, walked with a stack so no input can overflow the call stack */
+function jsonDepth(value: unknown): number {
+  let depth = 0
+  const pending: [unknown, number][] = [[value, 1]]
+  while (pending.length > 0) {
+    const [node, level] = pending.pop()!
+    if (node === null || typeof node !== 'object') continue
+    depth = Math.max(depth, level)
+    for (const child of Object.values(node)) pending.push([child, level + 1])
+  }
+  return depth
+}
+
+export const secureInquiryRequestSchema = z
+  .object({
+    userId: z.string().min(1, 'userId is required'),
+    message: messageContentSchema.optional(),
+    messages: z
+      .array(conversationMessageSchema)
+      .min(1, 'messages must not be empty')
+      .max(MAX_TURNS, `messages must not exceed ${MAX_TURNS} turns`)
+      .refine((turns) => turns.some((turn) => turn.role === 'user'), {
+        message: 'messages must contain a user turn',
+      })
+      .refine(
+        (turns) =>
+          turns.reduce((total, turn) => total + turn.content.length, 0) <= MAX_MESSAGE_LENGTH,
+        { message: `messages must not exceed ${MAX_MESSAGE_LENGTH} characters in total` }
+      )
+      .optional(),
+    mode: redactionModeSchema.default('redact'),
+    context: z
+      .record(z.string(), z.unknown())
+      // Size first, and abort on failure, so the depth walk only sees small values
+      .refine((context) => JSON.stringify(context).length <= MAX_CONTEXT_LENGTH, {
+        message: `context must not exceed ${MAX_CONTEXT_LENGTH} characters as JSON`,
+        abort: true,
+      })
+      .refine((context) => jsonDepth(context) <= MAX_CONTEXT_DEPTH, {
+        message: `context must not nest deeper than ${MAX_CONTEXT_DEPTH} levels`,
+      })
+      .optional(),
+  })
+  .refine((body) => (body.message === undefined) !== (body.messages === undefined), {
+    message: 'provide exactly one of message or messages',
+  })
+
+/**
+ * Which AI provider answered an inquiry
+ */
+export interface AiServedBy {
+  provider: string
+  model: string
+  /** Providers tried first that failed or had an open circuit, in order */
+  failedOver?: string[]
 }
 
-export const secureInquiryRequestSchema = z.object({
-  userId: z.string().min(1, 'userId is required'),
-  message: z
-    .string()
-    .min(1, 'message is required')
-    .max(10000, 'message must not exceed 10000 characters'),
+export const aiServedBySchema = z.object({
+  provider: z.string(),
+  model: z.string(),
+  failedOver: z.array(z.string()).optional(),
 })
 
 /**
@@ -41,14 +329,47 @@ export const secureInquiryRequestSchema = z.object({
  */
 export interface SecureInquiryResponse {
   userId: string
+  /** Sanitized message; for conversations, the last turn */
   redactedMessage: string
+  /** Sanitized conversation, present when the request sent `messages` */
+  redactedMessages?: ConversationMessage[]
+  /** AI answer, sanitized before it leaves the gateway */
   aiResponse: string
+  /** What was redacted from the message, or from every turn of a conversation */
   redactedItems: RedactedItem[]
+  /** What was redacted from the AI answer */
+  responseRedactedItems: RedactedItem[]
+  /** Present and true when the answer was withheld under the egress policy */
+  responseWithheld?: boolean
+  /** Span-level detections in `redactedMessage`, present when requested with `includeSpans=true` */
+  spans?: DetectionSpan[]
+  /** Span-level detections per conversation turn, present with `includeSpans=true` */
+  turnSpans?: DetectionSpan[][]
+  /** Span-level detections in the AI answer, present with `includeSpans=true` */
+  responseSpans?: DetectionSpan[]
+  /** Sanitized copy of the request context, present when one was sent */
+  redactedContext?: { [key: string]: unknown }
+  /** What was redacted from the context, present when one was sent */
+  contextRedactedItems?: RedactedItem[]
+  /** Context detections by JSON pointer, present with `includeSpans=true` */
+  contextDetections?: JsonDetection[]
+  /** AI provider and model that answered */
+  servedBy: AiServedBy
 }
 
 export const secureInquiryResponseSchema = z.object({
   userId: z.string(),
   redactedMessage: z.string(),
+  redactedMessages: z.array(conversationMessageSchema).optional(),
   aiResponse: z.string(),
   redactedItems: z.array(redactedItemSchema),
+  responseRedactedItems: z.array(redactedItemSchema),
+  responseWithheld: z.boolean().optional(),
+  spans: z.array(detectionSpanSchema).optional(),
+  turnSpans: z.array(z.array(detectionSpanSchema)).optional(),
+  responseSpans: z.array(detectionSpanSchema).optional(),
+  redactedContext: z.record(z.string(), z.unknown()).optional(),
+  contextRedactedItems: z.array(redactedItemSchema).optional(),
+  contextDetections: z.array(jsonDetectionSchema).optional(),
+  servedBy: aiServedBySchema,
 })
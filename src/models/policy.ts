@@ -0,0 +1,70 @@
+import { z } from 'zod'
+
+import { aiProviderNameSchema } from './ai'
+import {
+  configurableMaskingStrategySchema,
+  type LocalePack,
+  localePackSchema,
+  type PIIType,
+  piiTypeSchema,
+} from './inquiry'
+
+/**
+ * What a tenant policy does with a detected PII type
+ * - redact: replace with `<REDACTED: TYPE>` (or a token in tokenize mode)
+ * - mask: replace using the tenant's (or gateway's) masking strategy for the type
+ * - allow: leave the value in place; it is still reported
+ * - block: reject the whole inquiry before it reaches the AI
+ */
+export type PolicyAction = 'redact' | 'mask' | 'allow' | 'block'
+
+export const policyActionSchema = z.enum(['redact', 'mask', 'allow', 'block'])
+
+/**
+ * Redaction policy for one tenant (API client)
+ */
+export interface TenantPolicy {
+  /** Matched against the `tenant` claim of the client's bearer token */
+  tenantId: string
+  /** Action per PII type */
+  rules: Partial<Record<PIIType, PolicyAction>>
+  /** Action for types without a rule; defaults to the gateway's masking config */
+  defaultAction?: PolicyAction
+  /** Masking strategies for 'mask' rules; falls back to PII_MASKING, then 'partial' */
+  masking?: Partial<Record<PIIType, 'redact' | 'partial' | 'hash' | 'format-preserving'>>
+  /** Locale packs to detect for this tenant; replaces PII_LOCALES when set */
+  locales?: LocalePack[]
+  /** Types that withhold the AI answer when found in it; replaces PII_EGRESS_WITHHOLD when set */
+  withhold?: PIIType[]
+  /** AI providers to try first, most preferred first; the rest follow by weight */
+  providers?: string[]
+}
+
+export const tenantPolicySchema = z.object({
+  tenantId: z
+    .string()
+    .regex(/^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/, 'tenantId must be 1-64 URL-safe characters'),
+  rules: z.partialRecord(piiTypeSchema, policyActionSchema),
+  defaultAction: policyActionSchema.optional(),
+  masking: z.partialRecord(piiTypeSchema, configurableMaskingStrategySchema).optional(),
+  locales: z.array(localePackSchema).optional(),
+  withhold: z.array(piiTypeSchema).optional(),
+  providers: z.array(aiProviderNameSchema).optional(),
+})
+
+export const tenantPolicyFileSchema = z
+  .array(tenantPolicySchema)
+  .refine(
+    (policies) => new Set(policies.map((policy) => policy.tenantId)).size === policies.length,
+    { message: 'tenantId must be unique' }
+  )
+
+/**
+ * The rule that rejected an inquiry, returned in the 422 error details
+ */
+export interface PolicyViolation {
+  tenantId: string | null
+  rule: { type: PIIType; label?: string; action: 'block' }
+  /** Number of detections of the blocked type */
+  count: number
+}
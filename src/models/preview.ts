@@ -0,0 +1,75 @@
+import { z } from 'zod'
+
+import {
+  type DetectionSpan,
+  MAX_MESSAGE_LENGTH,
+  type RedactedItem,
+  type RedactionMode,
+  redactionModeSchema,
+} from './inquiry'
+import type { PolicyViolation } from './policy'
+
+const MAX_BATCH = 50
+
+const previewMessageSchema = z
+  .string()
+  .min(1, 'message is required')
+  .max(MAX_MESSAGE_LENGTH, `message must not exceed ${MAX_MESSAGE_LENGTH} characters`)
+
+/**
+ * Request body for POST /sanitize/preview: exactly one of `message` or `messages`
+ */
+export interface SanitizePreviewRequest {
+  message?: string
+  /** Batch of up to 50 messages, previewed independently */
+  messages?: string[]
+  /** Defaults to 'redact' */
+  mode?: RedactionMode
+}
+
+export const sanitizePreviewRequestSchema = z
+  .object({
+    message: previewMessageSchema.optional(),
+    messages: z
+      .array(previewMessageSchema)
+      .min(1, 'messages must not be empty')
+      .max(MAX_BATCH, `messages must not exceed ${MAX_BATCH} entries`)
+      .refine(
+        (batch) =>
+          batch.reduce((total, message) => total + message.length, 0) <= MAX_MESSAGE_LENGTH,
+        { message: `messages must not exceed ${MAX_MESSAGE_LENGTH} characters in total` }
+      )
+      .optional(),
+    mode: redactionModeSchema.default('redact'),
+  })
+  .refine((body) => (body.message === undefined) !== (body.messages === undefined), {
+    message: 'provide exactly one of message or messages',
+  })
+
+/**
+ * What /secure-inquiry would do with a message under the tenant's policy
+ */
+export interface PolicyDecision {
+  action: 'proceed' | 'block'
+  /** The rule that would reject the inquiry (block only) */
+  violation?: PolicyViolation
+}
+
+/**
+ * Preview of one message
+ */
+export interface SanitizePreview {
+  redactedMessage: string
+  redactedItems: RedactedItem[]
+  spans: DetectionSpan[]
+  decision: PolicyDecision
+}
+
+/**
+ * Response body for POST /sanitize/preview, one preview per message in request order
+ */
+export interface SanitizePreviewResponse {
+  /** Tenant whose policy was applied; null for gateway defaults */
+  tenantId: string | null
+  previews: SanitizePreview[]
+}
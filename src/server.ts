@@ -1,9 +1,21 @@
 import app from './app'
 import { pool } from './db/client'
 import { env } from './env'
+import { loadAiProviders } from './services/ai'
+import { configureAiProviders } from './services/ai/configured'
+import { loadCustomDetectors } from './services/detectors'
+import { loadTenantPolicies } from './services/policy'
 import logger from './utils/logger'
 
-const { PORT, APP_ENV } = env
+const {
+  PORT,
+  APP_ENV,
+  CUSTOM_DETECTORS_PATH,
+  TENANT_POLICIES_PATH,
+  PII_HMAC_KEY,
+  AI_PROVIDERS_PATH,
+  AI_TIMEOUT_MS,
+} = env
 const HOST = '0.0.0.0' // Essential for Docker/Cloud Run
 
 /**
@@ -24,12 +36,55 @@ async function connectDatabase(): Promise<void> {
   }
 }
 
+/**
+ * Register custom detectors from the configured file, if any.
+ */
+async function loadDetectors(): Promise<void> {
+  if (!CUSTOM_DETECTORS_PATH) return
+
+  const loaded = await loadCustomDetectors(CUSTOM_DETECTORS_PATH)
+  if (!loaded.ok) {
+    throw new Error(`Custom detectors failed to load: ${loaded.error.message}`)
+  }
+  logger.info(`Loaded ${loaded.value} custom detectors from ${CUSTOM_DETECTORS_PATH}`)
+}
+
+/**
+ * Load per-tenant redaction policies from the configured file, if any.
+ */
+async function loadPolicies(): Promise<void> {
+  if (!TENANT_POLICIES_PATH) return
+
+  const loaded = await loadTenantPolicies(TENANT_POLICIES_PATH, PII_HMAC_KEY)
+  if (!loaded.ok) {
+    throw new Error(`Tenant policies failed to load: ${loaded.error.message}`)
+  }
+  logger.info(`Loaded ${loaded.value} tenant policies from ${TENANT_POLICIES_PATH}`)
+}
+
+/**
+ * Route between the AI providers in the configured file, if any.
+ */
+async function loadProviders(): Promise<void> {
+  if (!AI_PROVIDERS_PATH) return
+
+  const loaded = await loadAiProviders(AI_PROVIDERS_PATH, process.env, AI_TIMEOUT_MS)
+  if (!loaded.ok) {
+    throw new Error(`AI providers failed to load: ${loaded.error.message}`)
+  }
+  configureAiProviders(loaded.value)
+  logger.info(`Loaded ${loaded.value.length} AI providers from ${AI_PROVIDERS_PATH}`)
+}
+
 /**
  * Start the server with database connection.
  */
 async function startServer(): Promise<ReturnType<typeof app.listen>> {
   try {
     await connectDatabase()
+    await loadDetectors()
+    await loadPolicies()
+    await loadProviders()
 
     return app.listen(PORT, HOST, () => {
       logger.info(`Swagger Docs: http://${HOST}:${PORT}/docs`)
@@ -0,0 +1,78 @@
+/**
+ * Configured AI Providers
+ *
+ * The router shared by the inquiry and health endpoints, with every
+ * configured provider behind its own circuit breaker. Without
+ * AI_PROVIDERS_PATH it routes to the single provider AI_PROVIDER selects;
+ * with it, the server configures the router from that file at startup.
+ * Kept apart from index.ts so the providers can be used without loading
+ * the environment. Each provider is retried up to AI_RETRY_MAX_ATTEMPTS
+ * times, within a retry budget shared by all of them.
+ */
+
+import { env } from '../../env'
+import { RetryBudget, RetryPolicy } from '../../lib'
+import { createCircuitBreaker } from '../circuitBreakers'
+import {
+  AiRouter,
+  createAiProvider,
+  isProviderFailure,
+  isRetryableProviderError,
+  type WeightedAiProviderConfig,
+  withCircuitBreaker,
+} from './index'
+
+export const aiRouter = new AiRouter(
+  [],
+  Math.random,
+  new RetryPolicy({
+    maxAttempts: env.AI_RETRY_MAX_ATTEMPTS,
+    isRetryable: isRetryableProviderError,
+    budget: new RetryBudget({ ratio: env.AI_RETRY_BUDGET }),
+  })
+)
+
+/**
+ * Route between the given providers, creating a breaker for each.
+ * Called once at startup; breaker names must stay unique.
+ *
+ * @param configs - Providers in failover order, with their weights
+ */
+export function configureAiProviders(configs: WeightedAiProviderConfig[]): void {
+  aiRouter.replace(
+    configs.map(({ weight, ...config }) => {
+      const provider = createAiProvider(config)
+      // Providers fail intermittently rather than all at once, so each breaker
+      // watches the failure and slow-call rates over the last minute
+      const breaker = createCircuitBreaker({
+        name: `ai:${provider.name}`,
+        isFailure: isProviderFailure,
+        window: {
+          type: 'time',
+          size: 60_000,
+          minimumCalls: 10,
+          failureRateThreshold: 0.5,
+          slowCallRateThreshold: 0.8,
+          slowCallDuration: 10_000,
+        },
+      })
+      return { provider: withCircuitBreaker(provider, breaker), breaker, weight }
+    })
+  )
+}
+
+if (!env.AI_PROVIDERS_PATH) {
+  configureAiProviders([
+    env.AI_PROVIDER === 'openai'
+      ? {
+          provider: 'openai',
+          // Presence is checked when the environment is loaded
+          baseUrl: env.AI_BASE_URL!,
+          apiKey: env.AI_API_KEY,
+          model: env.AI_MODEL!,
+          timeoutMs: env.AI_TIMEOUT_MS,
+          weight: 1,
+        }
+      : { provider: 'mock', weight: 1 },
+  ])
+}
@@ -0,0 +1,64 @@
+/**
+ * Circuit-Broken Providers
+ *
+ * Puts a provider behind its own CircuitBreaker. Completions go through the
+ * breaker; probes do not count towards it, but report the provider as
+ * unavailable while its circuit is open.
+ */
+
+import { AppError, type CircuitBreaker, Result } from '../../lib'
+import type { AiProvider } from './types'
+
+/**
+ * Whether an error from a provider counts against it. Upstream 4xx
+ * responses reach the client as 502s, but apart from timeouts (408) and
+ * rate limits (429) they reject the request, not the provider.
+ *
+ * @param error - Error returned by a provider
+ */
+export function isProviderFailure(error: AppError): boolean {
+  const upstreamStatus = error.details?.upstreamStatus
+  if (typeof upstreamStatus === 'number' && upstreamStatus >= 400 && upstreamStatus < 500) {
+    return upstreamStatus === 408 || upstreamStatus === 429
+  }
+  return error.status >= 500
+}
+
+/**
+ * Whether a failed call is worth retrying: a provider failure that may
+ * pass, but not a breaker rejection, which is failed over instead.
+ *
+ * @param error - Error returned by a guarded provider
+ */
+export function isRetryableProviderError(error: AppError): boolean {
+  return isProviderFailure(error) && error.details?.circuitBreaker === undefined
+}
+
+/**
+ * Guard a provider with a breaker.
+ *
+ * @param provider - Provider to guard
+ * @param breaker - Breaker dedicated to this provider
+ * @returns Provider with the same name and capabilities
+ */
+export function withCircuitBreaker(provider: AiProvider, breaker: CircuitBreaker): AiProvider {
+  return {
+    name: provider.name,
+    capabilities: provider.capabilities,
+    complete: breaker.wrap((input, options) => provider.complete(input, options)),
+
+    async probe() {
+      if (breaker.state === 'open') {
+        return Result.err(
+          new AppError({
+            status: 503,
+            code: 'SERVICE_UNAVAILABLE',
+            message: 'Circuit breaker is open',
+            details: { circuitBreaker: breaker.name },
+          })
+        )
+      }
+      return provider.probe()
+    },
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * AI Providers
+ *
+ * Single import point for the provider interface, its implementations,
+ * selection by configuration and routing between providers.
+ */
+
+export { isProviderFailure, isRetryableProviderError, withCircuitBreaker } from './guarded'
+export { createMockAiProvider, mockAiProvider } from './mock'
+export type { OpenAiProviderConfig } from './openai'
+export { createOpenAiProvider, DEFAULT_TIMEOUT_MS } from './openai'
+export type { AiProviderConfig, WeightedAiProviderConfig } from './providers'
+export { createAiProvider, loadAiProviders } from './providers'
+export type { AiRoute, AiRoutingFailure, RoutedCompletion } from './router'
+export { AiRouter } from './router'
+export type { AiCallOptions, AiCompletion, AiInput, AiProbe, AiProvider } from './types'
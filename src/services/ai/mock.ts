@@ -0,0 +1,36 @@
+/**
+ * Mock AI Provider
+ *
+ * The simulated service from mockAi.ts behind the provider interface, so
+ * development and tests run without an API key. Several can be configured
+ * under different names to try out failover locally.
+ */
+
+import { Result } from '../../lib'
+import { callMockAi } from '../mockAi'
+import type { AiProvider } from './types'
+
+const MODEL = 'mock'
+
+/**
+ * Create a mock provider.
+ *
+ * @param name - Name on /health and in audit entries
+ */
+export function createMockAiProvider(name = 'mock'): AiProvider {
+  return {
+    name,
+    capabilities: { model: MODEL, conversations: true, streaming: false },
+
+    async complete(input) {
+      return Result.map(await callMockAi(input), (response) => ({ ...response, model: MODEL }))
+    },
+
+    async probe() {
+      // Nothing to reach
+      return Result.ok({ latencyMs: 0 })
+    },
+  }
+}
+
+export const mockAiProvider = createMockAiProvider()
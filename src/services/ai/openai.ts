@@ -0,0 +1,175 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * HTTP adapter for any API that speaks the OpenAI chat-completions protocol
+ * (OpenAI, Azure OpenAI, vLLM, Ollama, LiteLLM and the like). Conversations
+ * are sent as chat messages, a single message as one user turn. Upstream
+ * failures become 502s and timeouts 504s; the upstream body is never
+ * echoed back, since it may quote the request.
+ */
+
+import { z } from 'zod'
+
+import { AppError, type AsyncResult, Result } from '../../lib'
+import logger from '../../utils/logger'
+import type { AiInput, AiProvider } from './types'
+
+/** Default limit for one completion */
+export const DEFAULT_TIMEOUT_MS = 30_000
+/** Probes are cheap; a slow one means the provider is unhealthy */
+const PROBE_TIMEOUT_MS = 5_000
+
+export interface OpenAiProviderConfig {
+  /** Name on /health and in logs (default 'openai') */
+  name?: string
+  /** API root that `/chat/completions` and `/models` hang off, e.g. https://api.openai.com/v1 */
+  baseUrl: string
+  /** Sent as a bearer token; omit for local servers without auth */
+  apiKey?: string
+  model: string
+  /** Abort a completion after this long (default DEFAULT_TIMEOUT_MS) */
+  timeoutMs?: number
+}
+
+const chatCompletionSchema = z.object({
+  model: z.string().optional(),
+  choices: z.array(z.object({ message: z.object({ content: z.string() }) })).min(1, 'no choices'),
+})
+
+/** A single message is one user turn */
+function toMessages(input: AiInput) {
+  return typeof input === 'string' ? [{ role: 'user', content: input }] : input
+}
+
+/**
+ * Create a provider for an OpenAI-compatible chat-completions API.
+ *
+ * @param config - Endpoint, credentials and model
+ * @returns Provider that calls the API with global fetch
+ */
+export function createOpenAiProvider(config: OpenAiProviderConfig): AiProvider {
+  const name = config.name ?? 'openai'
+  const baseUrl = config.baseUrl.replace(/\/+$/, '')
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS
+
+  /** Call an endpoint and parse its JSON body, mapping every failure to an AppError */
+  async function request(path: string, init: RequestInit, timeout: number): AsyncResult<unknown> {
+    // The caller's deadline has already passed
+    if (timeout <= 0) return Result.err(timedOut(0))
+
+    const signal = AbortSignal.timeout(timeout)
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        ...init,
+        headers: {
+          accept: 'application/json',
+          ...(init.body !== undefined && { 'content-type': 'application/json' }),
+          ...(config.apiKey && { authorization: `Bearer ${config.apiKey}` }),
+        },
+        signal,
+      })
+    } catch (error) {
+      logger.error('AI provider request failed', {
+        provider: name,
+        path,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return Result.err(
+        signal.aborted
+          ? timedOut(timeout)
+          : new AppError({
+              status: 502,
+              code: 'AI_SERVICE_ERROR',
+              message: 'AI provider is unreachable',
+              details: { provider: name },
+            })
+      )
+    }
+
+    if (!response.ok) {
+      // Drain the body so the connection can be reused; its content is not trusted
+      await response.text().catch(() => undefined)
+      logger.error('AI provider returned an error', {
+        provider: name,
+        path,
+        status: response.status,
+      })
+      return Result.err(
+        new AppError({
+          status: 502,
+          code: 'AI_SERVICE_ERROR',
+          message: `AI provider responded with ${response.status}`,
+          details: { provider: name, upstreamStatus: response.status },
+        })
+      )
+    }
+
+    try {
+      return Result.ok(await response.json())
+    } catch {
+      return Result.err(invalidResponse('body is not JSON'))
+    }
+  }
+
+  function timedOut(timeout: number): AppError {
+    return new AppError({
+      status: 504,
+      code: 'AI_TIMEOUT',
+      message: `AI provider did not answer within ${timeout} ms`,
+      details: { provider: name },
+    })
+  }
+
+  function invalidResponse(reason: string): AppError {
+    logger.error('AI provider returned an invalid response', { provider: name, reason })
+    return new AppError({
+      status: 502,
+      code: 'AI_SERVICE_ERROR',
+      message: 'AI provider returned an invalid response',
+      details: { provider: name, reason },
+    })
+  }
+
+  return {
+    name,
+    capabilities: { model: config.model, conversations: true, streaming: false },
+
+    async complete(input, options) {
+      const startTime = Date.now()
+      const deadline = options?.deadline ?? Infinity
+      const body = await request(
+        '/chat/completions',
+        {
+          method: 'POST',
+          body: JSON.stringify({ model: config.model, messages: toMessages(input) }),
+        },
+        Math.min(timeoutMs, deadline - startTime)
+      )
+      if (Result.isErr(body)) return body
+
+      const parsed = chatCompletionSchema.safeParse(body.value)
+      if (!parsed.success) {
+        return Result.err(invalidResponse(parsed.error.issues[0]?.message ?? 'unexpected shape'))
+      }
+
+      const processingTime = Date.now() - startTime
+      logger.debug('AI provider request completed', { provider: name, processingTime })
+      return Result.ok({
+        answer: parsed.data.choices[0].message.content,
+        processingTime,
+        model: parsed.data.model ?? config.model,
+      })
+    },
+
+    async probe() {
+      const startTime = Date.now()
+      const body = await request(
+        '/models',
+        { method: 'GET' },
+        Math.min(timeoutMs, PROBE_TIMEOUT_MS)
+      )
+      return Result.map(body, () => ({ latencyMs: Date.now() - startTime }))
+    },
+  }
+}
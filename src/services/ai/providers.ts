@@ -0,0 +1,84 @@
+/**
+ * Provider Selection
+ *
+ * Turns configuration into providers: a single provider from AI_PROVIDER and
+ * friends, or an ordered, weighted list from the AI_PROVIDERS_PATH file.
+ */
+
+import * as fs from 'fs/promises'
+
+import { type AsyncResult, Errors, Result } from '../../lib'
+import { aiProviderFileSchema } from '../../models/ai'
+import { createMockAiProvider } from './mock'
+import { createOpenAiProvider, type OpenAiProviderConfig } from './openai'
+import type { AiProvider } from './types'
+
+/** Which provider to use, with its settings */
+export type AiProviderConfig =
+  | { provider: 'mock'; name?: string }
+  | ({ provider: 'openai' } & OpenAiProviderConfig)
+
+/** A provider to route to, with its share of traffic */
+export type WeightedAiProviderConfig = AiProviderConfig & { weight: number }
+
+/**
+ * Create the provider a configuration selects.
+ *
+ * @param config - Provider kind and its settings
+ * @returns The mock, or an adapter for the configured endpoint
+ */
+export function createAiProvider(config: AiProviderConfig): AiProvider {
+  switch (config.provider) {
+    case 'mock':
+      return createMockAiProvider(config.name)
+    case 'openai':
+      return createOpenAiProvider(config)
+  }
+}
+
+/**
+ * Load the providers to route between from a JSON file holding an array of
+ * provider definitions, in failover order.
+ *
+ * @param filePath - Path to the JSON config file
+ * @param environment - Where `apiKeyEnv` names are looked up
+ * @param defaultTimeoutMs - Completion time limit for providers that set none (AI_TIMEOUT_MS)
+ * @returns Provider configurations with their weights
+ */
+export async function loadAiProviders(
+  filePath: string,
+  environment: NodeJS.ProcessEnv = process.env,
+  defaultTimeoutMs?: number
+): AsyncResult<WeightedAiProviderConfig[]> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unreadable file'
+    return Result.err(Errors.badRequest(`Cannot read AI providers from ${filePath}: ${message}`))
+  }
+
+  const parsed = aiProviderFileSchema.safeParse(raw)
+  if (!parsed.success) return Result.err(Errors.validation(parsed.error.message))
+
+  const configs: WeightedAiProviderConfig[] = []
+  for (const definition of parsed.data) {
+    const weight = definition.weight ?? 1
+    if (definition.provider === 'mock') {
+      configs.push({ provider: 'mock', name: definition.name ?? 'mock', weight })
+      continue
+    }
+
+    const { apiKeyEnv, ...settings } = definition
+    const apiKey = apiKeyEnv ? environment[apiKeyEnv] : undefined
+    if (apiKeyEnv && !apiKey) {
+      const name = definition.name ?? definition.provider
+      return Result.err(
+        Errors.validation(`Provider '${name}' needs ${apiKeyEnv}, which is not set`)
+      )
+    }
+    configs.push({ ...settings, timeoutMs: settings.timeoutMs ?? defaultTimeoutMs, apiKey, weight })
+  }
+
+  return Result.ok(configs)
+}
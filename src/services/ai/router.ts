@@ -0,0 +1,179 @@
+/**
+ * AI Router
+ *
+ * Routes each inquiry across an ordered list of providers, each behind its
+ * own circuit breaker. The first provider is picked at random in proportion
+ * to the weights, among those whose circuit is not open; if it fails, the
+ * others are tried in list order. A tenant may prefer providers, which are
+ * then tried first, in its order, before any weighted pick.
+ *
+ * Each provider is retried under the router's RetryPolicy before the next
+ * one is tried. Every attempt is a call through the provider's breaker, so
+ * retries count towards its statistics like any other call; a breaker
+ * rejection is not retried but moves on to the next provider. Nothing is
+ * retried or failed over to once the request's deadline has passed; the
+ * inquiry then fails with a 504 rather than the last provider's error.
+ */
+
+import { AppError, type AsyncResult, type CircuitBreaker, Result, RetryPolicy } from '../../lib'
+import type { AiFailover } from '../../models/contracts'
+import logger from '../../utils/logger'
+import type { AiCompletion, AiInput, AiProvider } from './types'
+
+export interface AiRoute {
+  /** Provider behind its own breaker */
+  provider: AiProvider
+  breaker: CircuitBreaker
+  /** Share of traffic relative to the other routes; 0 takes failover traffic only */
+  weight: number
+}
+
+/** An answer along with where it came from */
+export interface RoutedCompletion extends AiCompletion {
+  /** Provider that answered */
+  provider: string
+  /** Providers passed over before it, in order */
+  failovers: AiFailover[]
+  /** Calls made across every provider, retries included */
+  attempts: number
+}
+
+/** Why no provider answered, along with where the request went */
+export interface AiRoutingFailure {
+  /** For the client: the last provider's error, or 503 (every circuit open) or 504 (deadline passed) */
+  error: AppError
+  /** Providers passed over, in order */
+  failovers: AiFailover[]
+  /** Calls made across every provider, retries included */
+  attempts: number
+}
+
+export class AiRouter {
+  #routes: AiRoute[]
+
+  /**
+   * @param routes - Routes in failover order
+   * @param random - Source of the weighted pick, in [0, 1)
+   * @param retryPolicy - How each provider is retried before failing over (default: no retries)
+   */
+  constructor(
+    routes: AiRoute[] = [],
+    private readonly random: () => number = Math.random,
+    private readonly retryPolicy: RetryPolicy = new RetryPolicy({ maxAttempts: 1 })
+  ) {
+    this.#routes = routes
+  }
+
+  /** Replace every route with the given set. */
+  replace(routes: AiRoute[]): void {
+    this.#routes = routes
+  }
+
+  /** Routes in failover order. */
+  list(): AiRoute[] {
+    return [...this.#routes]
+  }
+
+  /**
+   * The order providers are tried in for one request.
+   *
+   * @param preference - Provider names a tenant prefers, most preferred first; unknown names are ignored
+   * @returns Preferred routes, then the weighted pick, then the rest in list order
+   */
+  order(preference: string[] = []): AiRoute[] {
+    const preferred = preference
+      .map((name) => this.#routes.find((route) => route.provider.name === name))
+      .filter(
+        (route, index, routes): route is AiRoute => !!route && routes.indexOf(route) === index
+      )
+    const rest = this.#routes.filter((route) => !preferred.includes(route))
+
+    const candidates = rest.filter((route) => route.weight > 0 && route.breaker.state !== 'open')
+    const total = candidates.reduce((sum, route) => sum + route.weight, 0)
+    let point = this.random() * total
+    const picked = candidates.find((route) => (point -= route.weight) < 0) ?? candidates.at(-1)
+
+    return picked
+      ? [...preferred, picked, ...rest.filter((route) => route !== picked)]
+      : [...preferred, ...rest]
+  }
+
+  /**
+   * Ask providers in routing order until one answers.
+   *
+   * @param input - Sanitized message or conversation
+   * @param preference - Provider names the tenant prefers
+   * @param deadline - Epoch ms by which the answer is needed
+   * @returns The first answer, or the error to report (a 504 once the deadline has passed)
+   * with every failover and the attempt count
+   */
+  async complete(
+    input: AiInput,
+    preference: string[] = [],
+    deadline = Infinity
+  ): AsyncResult<RoutedCompletion, AiRoutingFailure> {
+    const failovers: AiFailover[] = []
+    let lastError: AppError | null = null
+    let attempts = 0
+
+    for (const { provider, breaker } of this.order(preference)) {
+      if (breaker.state === 'open') {
+        failovers.push({ provider: provider.name, code: 'CIRCUIT_OPEN', attempts: 0 })
+        continue
+      }
+      if (Date.now() >= deadline) {
+        logger.warn('No AI provider answered before the deadline', { attempts, failovers })
+        return Result.err({
+          error: new AppError({
+            status: 504,
+            code: 'AI_DEADLINE_EXCEEDED',
+            message: 'No AI provider answered in time',
+          }),
+          failovers,
+          attempts,
+        })
+      }
+
+      const retried = await this.retryPolicy.execute(
+        () => provider.complete(input, { deadline }),
+        deadline,
+        ({ attempt, delayMs, error }) => {
+          logger.warn('Retrying AI provider', {
+            provider: provider.name,
+            attempt,
+            delayMs,
+            code: error.code,
+          })
+        }
+      )
+      attempts += retried.attempts
+
+      const result = retried.result
+      if (Result.isOk(result)) {
+        if (attempts > 1) {
+          logger.info('AI provider answered after retries', { provider: provider.name, attempts })
+        }
+        return Result.ok({ ...result.value, provider: provider.name, failovers, attempts })
+      }
+      failovers.push({
+        provider: provider.name,
+        code: result.error.code,
+        attempts: retried.attempts,
+      })
+      lastError = result.error
+    }
+
+    if (lastError) {
+      logger.warn('No AI provider answered', { code: lastError.code, attempts, failovers })
+    }
+
+    // Every circuit open (or no providers at all): the gateway is busy
+    return Result.err({
+      error:
+        lastError ??
+        new AppError({ status: 503, code: 'SERVICE_UNAVAILABLE', message: 'Service Busy' }),
+      failovers,
+      attempts,
+    })
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * AI Provider Types
+ *
+ * Common interface implemented by every backend the gateway can forward a
+ * sanitized inquiry to, whether the in-process mock or a remote API.
+ */
+
+import type { AsyncResult } from '../../lib'
+import type { ConversationMessage } from '../../models/contracts'
+import type { AiCapabilities } from '../../models/health'
+
+/** A single sanitized message, or a whole conversation (oldest turn first) */
+export type AiInput = string | ConversationMessage[]
+
+/** An answer from a provider */
+export interface AiCompletion {
+  answer: string
+  /** Milliseconds from the call to the answer */
+  processingTime: number
+  /** Model that produced the answer, as reported by the provider */
+  model: string
+}
+
+/** Settings for one completion */
+export interface AiCallOptions {
+  /** Epoch ms by which the caller needs the answer; the call is cut short then */
+  deadline?: number
+}
+
+/** Outcome of a successful health probe */
+export interface AiProbe {
+  latencyMs: number
+}
+
+export interface AiProvider {
+  /** Unique name, shown on /health */
+  readonly name: string
+  readonly capabilities: AiCapabilities
+  /**
+   * Ask the provider for an answer.
+   *
+   * @param input - Sanitized message or conversation; nothing here may contain raw PII
+   * @param options - Deadline for the answer
+   * @returns The answer, or an AppError (503 while the provider is busy)
+   */
+  complete(input: AiInput, options?: AiCallOptions): AsyncResult<AiCompletion>
+  /** Cheap check that the provider is reachable, without asking it anything */
+  probe(): AsyncResult<AiProbe>
+}
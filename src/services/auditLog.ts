@@ -3,6 +3,8 @@
  *
  * Provides encrypted audit logging for secure inquiry processing.
  * Stores audit entries with encrypted original messages in PostgreSQL.
+ * Every query goes through the database circuit breaker, so an outage
+ * fails fast with a 503 instead of waiting on the connection timeout.
  */
 
 import { desc, eq } from 'drizzle-orm'
@@ -13,6 +15,7 @@ import { type AsyncResult, Errors, Result } from '../lib'
 import type { AuditEntry } from '../models/contracts'
 import { encrypt } from '../utils/crypto'
 import logger from '../utils/logger'
+import { databaseBreaker } from './circuitBreakers'
 
 /**
  * Write an audit entry to the database.
@@ -23,29 +26,32 @@ import logger from '../utils/logger'
 export async function writeAuditEntry(
   entry: Omit<AuditEntry, 'id' | 'timestamp' | 'keyVersion'>
 ): AsyncResult<void> {
-  try {
-    // Encrypt the original message with per-user key derivation
-    const encryptedPayload = encrypt(entry.originalMessage, entry.userId)
-    const encryptedMessage = JSON.stringify(encryptedPayload)
+  return databaseBreaker.execute(async () => {
+    try {
+      // Encrypt the original message with per-user key derivation
+      const encryptedPayload = encrypt(entry.originalMessage, entry.userId)
+      const encryptedMessage = JSON.stringify(encryptedPayload)
 
-    // Insert into database
-    await db.insert(auditEntries).values({
-      userId: entry.userId,
-      originalMessage: encryptedMessage,
-      redactedMessage: entry.redactedMessage,
-      aiResponse: entry.aiResponse,
-      success: entry.success,
-      keyVersion: encryptedPayload.keyVersion,
-    })
+      // Insert into database
+      await db.insert(auditEntries).values({
+        userId: entry.userId,
+        originalMessage: encryptedMessage,
+        redactedMessage: entry.redactedMessage,
+        aiResponse: entry.aiResponse,
+        success: entry.success,
+        keyVersion: encryptedPayload.keyVersion,
+        metadata: entry.metadata,
+      })
 
-    logger.debug('Audit entry written', { userId: entry.userId, success: entry.success })
+      logger.debug('Audit entry written', { userId: entry.userId, success: entry.success })
 
-    return Result.ok(undefined)
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to write audit entry'
-    logger.error('Failed to write audit entry', { error: message })
-    return Result.err(Errors.internal(message))
-  }
+      return Result.ok(undefined)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to write audit entry'
+      logger.error('Failed to write audit entry', { error: message })
+      return Result.err(Errors.internal(message))
+    }
+  })
 }
 
 /**
@@ -59,32 +65,35 @@ export async function readAuditEntriesByUser(
   userId: string,
   limit = 100
 ): AsyncResult<AuditEntry[]> {
-  try {
-    const rows = await db
-      .select()
-      .from(auditEntries)
-      .where(eq(auditEntries.userId, userId))
-      .orderBy(desc(auditEntries.createdAt))
-      .limit(limit)
+  return databaseBreaker.execute(async () => {
+    try {
+      const rows = await db
+        .select()
+        .from(auditEntries)
+        .where(eq(auditEntries.userId, userId))
+        .orderBy(desc(auditEntries.createdAt))
+        .limit(limit)
 
-    // Map DB rows to AuditEntry interface
-    const entries: AuditEntry[] = rows.map((row) => ({
-      id: row.id,
-      timestamp: row.createdAt.toISOString(),
-      userId: row.userId,
-      originalMessage: row.originalMessage,
-      redactedMessage: row.redactedMessage,
-      aiResponse: row.aiResponse,
-      success: row.success,
-      keyVersion: row.keyVersion,
-    }))
+      // Map DB rows to AuditEntry interface
+      const entries: AuditEntry[] = rows.map((row) => ({
+        id: row.id,
+        timestamp: row.createdAt.toISOString(),
+        userId: row.userId,
+        originalMessage: row.originalMessage,
+        redactedMessage: row.redactedMessage,
+        aiResponse: row.aiResponse,
+        success: row.success,
+        keyVersion: row.keyVersion,
+        metadata: row.metadata,
+      }))
 
-    return Result.ok(entries)
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to read audit entries'
-    logger.error('Failed to read audit entries', { error: message })
-    return Result.err(Errors.internal(message))
-  }
+      return Result.ok(entries)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read audit entries'
+      logger.error('Failed to read audit entries', { error: message })
+      return Result.err(Errors.internal(message))
+    }
+  })
 }
 
 /**
@@ -95,29 +104,32 @@ export async function readAuditEntriesByUser(
  * @returns AsyncResult with array of audit entries
  */
 export async function readAuditEntries(limit = 1000): AsyncResult<AuditEntry[]> {
-  try {
-    const rows = await db
-      .select()
-      .from(auditEntries)
-      .orderBy(desc(auditEntries.createdAt))
-      .limit(limit)
+  return databaseBreaker.execute(async () => {
+    try {
+      const rows = await db
+        .select()
+        .from(auditEntries)
+        .orderBy(desc(auditEntries.createdAt))
+        .limit(limit)
 
-    // Map DB rows to AuditEntry interface
-    const entries: AuditEntry[] = rows.map((row) => ({
-      id: row.id,
-      timestamp: row.createdAt.toISOString(),
-      userId: row.userId,
-      originalMessage: row.originalMessage,
-      redactedMessage: row.redactedMessage,
-      aiResponse: row.aiResponse,
-      success: row.success,
-      keyVersion: row.keyVersion,
-    }))
+      // Map DB rows to AuditEntry interface
+      const entries: AuditEntry[] = rows.map((row) => ({
+        id: row.id,
+        timestamp: row.createdAt.toISOString(),
+        userId: row.userId,
+        originalMessage: row.originalMessage,
+        redactedMessage: row.redactedMessage,
+        aiResponse: row.aiResponse,
+        success: row.success,
+        keyVersion: row.keyVersion,
+        metadata: row.metadata,
+      }))
 
-    return Result.ok(entries)
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Failed to read audit entries'
-    logger.error('Failed to read audit entries', { error: message })
-    return Result.err(Errors.internal(message))
-  }
+      return Result.ok(entries)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to read audit entries'
+      logger.error('Failed to read audit entries', { error: message })
+      return Result.err(Errors.internal(message))
+    }
+  })
 }
@@ -0,0 +1,52 @@
+/**
+ * Circuit Breakers
+ *
+ * One breaker per dependency: each AI provider and the database. Breakers
+ * are created here so /health can list them all and every state change is
+ * logged the same way.
+ */
+
+import { CircuitBreaker, type CircuitBreakerOptions, type CircuitBreakerStatus } from '../lib'
+import logger from '../utils/logger'
+
+const breakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Create and register a breaker for a dependency.
+ *
+ * @param options - Breaker settings; the name must be unique
+ * @returns Breaker whose transitions are logged
+ */
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  if (breakers.has(options.name)) {
+    throw new Error(`Circuit breaker "${options.name}" already exists`)
+  }
+
+  const breaker = new CircuitBreaker(options)
+  breaker.on('stateChange', ({ name, from, to, failures, window }) => {
+    logger[to === 'open' ? 'warn' : 'info'](`Circuit breaker ${name}: ${from} -> ${to}`, {
+      failures,
+      ...(window && {
+        calls: window.calls,
+        failureRate: window.failureRate,
+        slowCallRate: window.slowCallRate,
+      }),
+    })
+  })
+  breakers.set(options.name, breaker)
+  return breaker
+}
+
+/**
+ * Status of every registered breaker, in creation order.
+ */
+export function circuitBreakerStatuses(): CircuitBreakerStatus[] {
+  return [...breakers.values()].map((breaker) => breaker.status())
+}
+
+/** Guards audit log reads and writes */
+export const databaseBreaker = createCircuitBreaker({
+  name: 'database',
+  failureThreshold: 5,
+  resetTimeout: 10_000,
+})
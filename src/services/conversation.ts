@@ -0,0 +1,45 @@
+/**
+ * Conversation Sanitizer
+ *
+ * Sanitizes every turn of a role-tagged conversation, whoever wrote it:
+ * clients resend earlier turns (including rehydrated AI answers) on each
+ * inquiry. Sharing one TokenVault across turns keeps placeholders
+ * consistent, so the same email becomes the same token in every turn.
+ */
+
+import type { ConversationMessage, RedactedItem, SanitizeResult } from '../models/contracts'
+import { mergeRedactedItems, sanitize, type SanitizeOptions } from './sanitizer'
+
+/** Result of sanitizing a conversation */
+export interface ConversationSanitizeResult {
+  /** Sanitized turns, in request order */
+  messages: ConversationMessage[]
+  /** Summary across all turns, merged per type and strategy */
+  redactedItems: RedactedItem[]
+  /** Sanitizer output for each turn */
+  turns: SanitizeResult[]
+}
+
+/**
+ * Sanitize each turn of a conversation with the same options.
+ *
+ * @param messages - Conversation turns, oldest first
+ * @param options - Sanitizer options; pass a TokenVault to tokenize consistently across turns
+ */
+export function sanitizeConversation(
+  messages: ConversationMessage[],
+  options: SanitizeOptions = {}
+): ConversationSanitizeResult {
+  const turns = messages.map((turn) => sanitize(turn.content, options))
+  const redactedItems: RedactedItem[] = []
+  for (const turn of turns) mergeRedactedItems(redactedItems, turn.redactedItems)
+
+  return {
+    messages: messages.map((turn, index) => ({
+      role: turn.role,
+      content: turns[index].redactedMessage,
+    })),
+    redactedItems,
+    turns,
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Built-in Detectors
+ *
+ * Secrets (see secrets.ts), emails, credit cards, SSNs, phone numbers and bank
+ * identifiers (IBANs, ABA routing numbers, account numbers), plus the
+ * national identifiers of the locale packs (see locales.ts). Credit card candidates must pass
+ * the Luhn checksum and match a known card network's IIN range before they
+ * are redacted; IBANs and routing numbers are checksum-validated the same way.
+ *
+ * Importing this module registers the built-ins with the default registry.
+ */
+
+import type { CardBrand } from '../../models/contracts'
+import { abaRoutingCheck, ibanCheck, luhnCheck } from '../../utils/checksum'
+import { DEFAULT_THRESHOLD, keywordContext } from './context'
+import { LOCALE_DETECTORS } from './locales'
+import { type CandidateDetails, createRegexDetector } from './regex'
+import { detectorRegistry } from './registry'
+import { secretDetector } from './secrets'
+import type { Detector } from './types'
+
+// PII detection regex patterns. Every quantifier is bounded, so a match
+// attempt never reads much further than the detector's maxLength.
+// Emails only start at the beginning of a run of address characters: an
+// attempt from inside the run fails wherever one from its start failed.
+const EMAIL_REGEX =
+  /(?<![a-zA-Z0-9._%+-])[a-zA-Z0-9._%+-]{1,64}@[a-zA-Z0-9.-]{1,253}\.[a-zA-Z]{2,63}/g
+// 13-19 digits, up to three spaces or dashes between any two
+const CREDIT_CARD_REGEX = /\b\d(?:[ -]{0,3}\d){12,18}\b/g
+const SSN_REGEX = /\b(?:\d{3}-\d{2}-\d{4}|\d{9})\b/g
+const IBAN_REGEX = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g
+
+// Keywords that must precede a routing or account number for it to count as one
+const ROUTING_CONTEXT = String.raw`\b(?:routing|aba|rtn|transit)(?:\s{0,3}(?:number|num|no\.?|#))?(?:\s{1,3}is)?[\s:#]{0,8}`
+const ACCOUNT_CONTEXT = String.raw`\b(?:account|acct|a/c)(?:\s{0,3}(?:number|num|no\.?|#))?(?:\s{1,3}is)?[\s:#]{0,8}`
+const ROUTING_NUMBER_REGEX = new RegExp(String.raw`(?<=${ROUTING_CONTEXT})\d{9}\b`, 'gi')
+const BANK_ACCOUNT_REGEX = new RegExp(
+  String.raw`(?<=${ACCOUNT_CONTEXT})\d(?:[ -]?\d){5,16}\b`,
+  'gi'
+)
+
+// International (+CC ...) or NANP with area code; bare 7-digit local numbers are not PII on their own
+const PHONE_REGEX =
+  /(?<![\w+])(?:\+[1-9]\d{0,2}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]?\d{1,4}){1,4}|(?:1[ .-]?)?(?:\([2-9]\d{2}\)|[2-9]\d{2})[ .-]?[2-9]\d{2}[ .-]?\d{4})(?!\w)/g
+
+/** Card network with its IIN prefixes ("34" or inclusive ranges like "51-55") and PAN lengths */
+interface CardNetwork {
+  brand: CardBrand
+  prefixes: string[]
+  lengths: number[]
+}
+
+// Ordered from most to least specific prefix so overlapping ranges resolve correctly
+const CARD_NETWORKS: CardNetwork[] = [
+  { brand: 'AMEX', prefixes: ['34', '37'], lengths: [15] },
+  { brand: 'DINERS_CLUB', prefixes: ['300-305', '36', '38-39'], lengths: [14, 15, 16, 17, 18, 19] },
+  { brand: 'JCB', prefixes: ['3528-3589'], lengths: [16, 17, 18, 19] },
+  { brand: 'VISA', prefixes: ['4'], lengths: [13, 16, 19] },
+  { brand: 'MASTERCARD', prefixes: ['51-55', '2221-2720'], lengths: [16] },
+  {
+    brand: 'DISCOVER',
+    prefixes: ['6011', '644-649', '65', '622126-622925'],
+    lengths: [16, 17, 18, 19],
+  },
+  { brand: 'UNIONPAY', prefixes: ['62'], lengths: [16, 17, 18, 19] },
+  {
+    brand: 'MAESTRO',
+    prefixes: ['5018', '5020', '5038', '5893', '6304', '6759', '6761-6763'],
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+  },
+]
+
+/**
+ * Identify the card network from a PAN's IIN prefix and length.
+ *
+ * @param digits - Card number with separators removed
+ * @returns The matching brand, or null when no known network issues it
+ */
+export function detectCardBrand(digits: string): CardBrand | null {
+  for (const network of CARD_NETWORKS) {
+    if (!network.lengths.includes(digits.length)) continue
+
+    for (const range of network.prefixes) {
+      const [low, high = low] = range.split('-')
+      const prefix = digits.slice(0, low.length)
+      if (prefix >= low && prefix <= high) return network.brand
+    }
+  }
+  return null
+}
+
+/**
+ * Accept a card candidate only if it passes Luhn and belongs to a known network.
+ * Order numbers, tracking IDs and other long digit runs are left untouched.
+ */
+function validateCreditCard(candidate: string): CandidateDetails | null {
+  const digits = candidate.replace(/[ -]/g, '')
+  if (!luhnCheck(digits)) return null
+
+  const brand = detectCardBrand(digits)
+  return brand ? { brand } : null
+}
+
+/**
+ * Accept international numbers only within the E.164 length limits (8-15 digits).
+ * NANP numbers are fully constrained by the regex.
+ */
+function validatePhone(candidate: string): CandidateDetails | null {
+  if (!candidate.startsWith('+')) return {}
+
+  const digitCount = candidate.replace(/\D/g, '').length
+  return digitCount >= 8 && digitCount <= 15 ? {} : null
+}
+
+/**
+ * Accept IBAN candidates that pass the mod-97 check.
+ */
+function validateIban(candidate: string): CandidateDetails | null {
+  return ibanCheck(candidate.replace(/ /g, '')) ? {} : null
+}
+
+/**
+ * Accept routing number candidates that pass the ABA checksum.
+ */
+function validateRoutingNumber(candidate: string): CandidateDetails | null {
+  return abaRoutingCheck(candidate) ? {} : null
+}
+
+// Words that usually introduce reference numbers and amounts rather than PII
+const NON_PII_NUMBER_CONTEXT = [
+  'order',
+  'invoice',
+  'inv',
+  'tracking',
+  'shipment',
+  'reference',
+  'ref',
+  'confirmation',
+  'ticket',
+  'po',
+  'sku',
+  'amount',
+  'total',
+]
+
+// A Luhn-valid card in a known IIN range is still redacted next to "order" or "total"
+const CARD_CONTEXT = keywordContext(
+  ['card', 'card ending', 'cc', 'cvv', 'cvc', 'credit', 'debit', 'visa', 'mastercard', 'amex'],
+  NON_PII_NUMBER_CONTEXT,
+  DEFAULT_THRESHOLD.redact
+)
+const SSN_CONTEXT = keywordContext(
+  ['ssn', 'social', 'social security', 'tax id', 'taxpayer', 'itin', 'tin'],
+  NON_PII_NUMBER_CONTEXT
+)
+const PHONE_CONTEXT = keywordContext(
+  ['phone', 'call', 'tel', 'mobile', 'cell', 'fax', 'sms', 'whatsapp'],
+  NON_PII_NUMBER_CONTEXT
+)
+
+// Priorities decide which detector keeps an overlapping match:
+// - Secrets highest so digit runs inside keys and tokens are never claimed as PII
+// - IBANs above cards so their digit groups are never mistaken for a PAN
+// - Locale identifiers above cards, SSNs and phones so CLABEs and SINs keep their own type
+// - Keyword-anchored routing and account numbers above the bare 9-digit SSN form
+// - Phones lowest so card and SSN digit runs are claimed by their own detectors
+export const BUILTIN_DETECTORS: Detector[] = [
+  secretDetector,
+  createRegexDetector({
+    id: 'email',
+    type: 'EMAIL',
+    label: 'EMAIL',
+    source: 'builtin',
+    regex: EMAIL_REGEX,
+    priority: 80,
+    maxLength: 382,
+    confidence: 0.95,
+  }),
+  createRegexDetector({
+    id: 'iban-mod97',
+    type: 'IBAN',
+    label: 'IBAN',
+    source: 'builtin',
+    regex: IBAN_REGEX,
+    priority: 70,
+    maxLength: 46,
+    confidence: 0.99,
+    validate: validateIban,
+  }),
+  ...Object.values(LOCALE_DETECTORS).flat(),
+  createRegexDetector({
+    id: 'credit-card-luhn',
+    type: 'CREDIT_CARD',
+    label: 'CREDIT_CARD',
+    source: 'builtin',
+    regex: CREDIT_CARD_REGEX,
+    priority: 50,
+    maxLength: 73,
+    confidence: 0.98,
+    context: CARD_CONTEXT,
+    validate: validateCreditCard,
+  }),
+  createRegexDetector({
+    id: 'routing-number-aba',
+    type: 'ROUTING_NUMBER',
+    label: 'ROUTING_NUMBER',
+    source: 'builtin',
+    regex: ROUTING_NUMBER_REGEX,
+    priority: 40,
+    maxLength: 9,
+    confidence: 0.95,
+    validate: validateRoutingNumber,
+  }),
+  createRegexDetector({
+    id: 'bank-account-keyword',
+    type: 'BANK_ACCOUNT',
+    label: 'BANK_ACCOUNT',
+    source: 'builtin',
+    regex: BANK_ACCOUNT_REGEX,
+    priority: 30,
+    maxLength: 33,
+    confidence: 0.8,
+  }),
+  createRegexDetector({
+    id: 'ssn',
+    type: 'SSN',
+    label: 'SSN',
+    source: 'builtin',
+    regex: SSN_REGEX,
+    priority: 20,
+    maxLength: 11,
+    confidence: 0.75,
+    context: SSN_CONTEXT,
+  }),
+  createRegexDetector({
+    id: 'phone',
+    type: 'PHONE',
+    label: 'PHONE',
+    source: 'builtin',
+    regex: PHONE_REGEX,
+    priority: 10,
+    maxLength: 40,
+    confidence: 0.85,
+    context: PHONE_CONTEXT,
+    validate: validatePhone,
+  }),
+]
+
+for (const detector of BUILTIN_DETECTORS) {
+  detectorRegistry.register(detector)
+}
@@ -0,0 +1,113 @@
+/**
+ * Context Scoring
+ *
+ * Turns a detector's base confidence into a per-match score using the words
+ * around the match: supporting keywords ("SSN", "card ending", "cvv") raise
+ * it, keywords that usually introduce non-PII numbers ("order #", "invoice",
+ * "tracking") lower it unless a supporting keyword is also present. A
+ * checksum-validated detector sets a floor negative keywords cannot push it
+ * below. A per-type threshold then decides whether the match is redacted,
+ * flagged (reported but left in place) or ignored.
+ */
+
+import type { Detector } from './types'
+
+/** Keyword patterns searched around a match */
+export interface DetectorContext {
+  positive?: RegExp
+  negative?: RegExp
+  /** Lowest score negative keywords can bring a match to */
+  floor?: number
+}
+
+/** Minimum scores to redact or flag a match; anything below `flag` is ignored */
+export interface ConfidenceThreshold {
+  redact: number
+  flag: number
+}
+
+export type Decision = 'redact' | 'flag' | 'ignore'
+
+export const DEFAULT_THRESHOLD: ConfidenceThreshold = { redact: 0.6, flag: 0.3 }
+
+// Characters inspected before and after a match
+const WINDOW_BEFORE = 32
+const WINDOW_AFTER = 16
+// A positive keyword closes half the gap to 1; a negative one, without a positive one, halves the score
+const POSITIVE_WEIGHT = 0.5
+const NEGATIVE_FACTOR = 0.5
+
+function keywordRegex(keywords: string[]): RegExp | undefined {
+  if (keywords.length === 0) return undefined
+  const escaped = keywords.map((keyword) => keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+  return new RegExp(`(?<![a-z])(?:${escaped.join('|')})(?![a-z])`, 'i')
+}
+
+/**
+ * Compile keyword lists into a detector context.
+ *
+ * @param positive - Words that make a match more likely to be PII
+ * @param negative - Words that make it less likely
+ * @param floor - Lowest score negative words can bring a match to
+ */
+export function keywordContext(
+  positive: string[],
+  negative: string[] = [],
+  floor?: number
+): DetectorContext {
+  return {
+    positive: keywordRegex(positive),
+    negative: keywordRegex(negative),
+    ...(floor !== undefined && { floor }),
+  }
+}
+
+/**
+ * Range of text scoreMatch reads around a match.
+ *
+ * @param start - Match start
+ * @param end - Match end (exclusive)
+ */
+export function contextRange(start: number, end: number): { start: number; end: number } {
+  return { start: Math.max(0, start - WINDOW_BEFORE), end: end + WINDOW_AFTER }
+}
+
+/**
+ * Score a match from its detector's base confidence and the surrounding text.
+ *
+ * @param detector - Detector that produced the match
+ * @param text - Text the offsets refer to
+ * @param start - Match start
+ * @param end - Match end (exclusive)
+ * @returns Score in [0, 1], rounded to three decimals
+ */
+export function scoreMatch(detector: Detector, text: string, start: number, end: number): number {
+  let score = detector.confidence
+  if (!detector.context) return score
+
+  const range = contextRange(start, end)
+  const window = text.slice(range.start, start) + ' ' + text.slice(end, range.end)
+  const { positive, negative, floor = 0 } = detector.context
+  if (positive?.test(window)) {
+    score += (1 - score) * POSITIVE_WEIGHT
+  } else if (negative?.test(window)) {
+    score = Math.max(score * NEGATIVE_FACTOR, Math.min(score, floor))
+  }
+
+  return Math.round(score * 1000) / 1000
+}
+
+/**
+ * Decide what to do with a scored match.
+ *
+ * @param score - Match score
+ * @param threshold - Thresholds for the match's type
+ */
+export function decide(
+  score: number,
+  threshold: ConfidenceThreshold = DEFAULT_THRESHOLD
+): Decision {
+  if (score >= threshold.redact) return 'redact'
+  if (score >= threshold.flag) return 'flag'
+  return 'ignore'
+}
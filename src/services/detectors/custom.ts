@@ -0,0 +1,141 @@
+/**
+ * Custom Detectors
+ *
+ * Turns validated custom rule definitions (regex or dictionary) into
+ * detectors and loads them from a JSON config file. Every regex is screened
+ * for catastrophic backtracking before it can be activated.
+ */
+
+import * as fs from 'fs/promises'
+
+import { type AsyncResult, Errors, Result, type ResultType } from '../../lib'
+import {
+  type CustomDetectorDefinition,
+  customDetectorDefinitionSchema,
+  customDetectorFileSchema,
+} from '../../models/detectors'
+import { checkRegexSafety } from '../../utils/regexSafety'
+import { createRegexDetector } from './regex'
+import { type DetectorRegistry, detectorRegistry } from './registry'
+import type { Detector } from './types'
+
+const DEFAULT_CONFIDENCE = 0.9
+// Below every built-in, so built-in types keep values a custom rule also matches
+const DEFAULT_PRIORITY = 0
+// Longest match a custom regex reports; the scanner never looks further ahead
+const MAX_REGEX_MATCH_LENGTH = 256
+
+function escapeRegex(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Build a detector from a custom rule definition.
+ *
+ * @param input - Unvalidated definition (request body or config file entry)
+ * @returns Err(422) when the definition is invalid or its regex is unsafe
+ */
+export function createCustomDetector(input: unknown): ResultType<Detector> {
+  const parsed = customDetectorDefinitionSchema.safeParse(input)
+  if (!parsed.success) return Result.err(Errors.validation(parsed.error.message))
+
+  const definition: CustomDetectorDefinition = parsed.data
+  let regex: RegExp
+  let maxLength: number
+
+  if (definition.kind === 'regex') {
+    const flags = definition.flags ?? ''
+    const unsafe = checkRegexSafety(definition.pattern, flags)
+    if (unsafe) {
+      return Result.err(Errors.validation(`Detector '${definition.id}' rejected: ${unsafe}`))
+    }
+    regex = new RegExp(definition.pattern, `${flags}g`)
+    maxLength = MAX_REGEX_MATCH_LENGTH
+  } else {
+    // Longest terms first so overlapping entries prefer the most specific match
+    const alternatives = [...new Set(definition.terms)]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegex)
+    regex = new RegExp(
+      `(?<![\\w])(?:${alternatives.join('|')})(?![\\w])`,
+      definition.caseSensitive ? 'gu' : 'giu'
+    )
+    maxLength = Math.max(...definition.terms.map((term) => term.length))
+  }
+
+  return Result.ok(
+    createRegexDetector({
+      id: definition.id,
+      type: 'CUSTOM',
+      label: definition.label,
+      source: 'custom',
+      priority: definition.priority ?? DEFAULT_PRIORITY,
+      maxLength,
+      confidence: definition.confidence ?? DEFAULT_CONFIDENCE,
+      regex,
+    })
+  )
+}
+
+/**
+ * Validate and register a custom detector.
+ *
+ * @param input - Unvalidated definition
+ * @param registry - Target registry (defaults to the gateway-wide one)
+ * @returns The registered detector, Err(422) when invalid, Err(409) on id/label conflicts
+ */
+export function registerCustomDetector(
+  input: unknown,
+  registry: DetectorRegistry = detectorRegistry
+): ResultType<Detector> {
+  return Result.andThen(createCustomDetector(input), (detector) =>
+    Result.map(registry.register(detector), () => detector)
+  )
+}
+
+/**
+ * Load custom detectors from a JSON file holding an array of definitions.
+ * The file is validated as a whole: nothing is registered if any entry is invalid.
+ *
+ * @param filePath - Path to the JSON config file
+ * @param registry - Target registry (defaults to the gateway-wide one)
+ * @returns Number of detectors registered
+ */
+export async function loadCustomDetectors(
+  filePath: string,
+  registry: DetectorRegistry = detectorRegistry
+): AsyncResult<number> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unreadable file'
+    return Result.err(
+      Errors.badRequest(`Cannot read custom detectors from ${filePath}: ${message}`)
+    )
+  }
+
+  const parsed = customDetectorFileSchema.safeParse(raw)
+  if (!parsed.success) return Result.err(Errors.validation(parsed.error.message))
+
+  const detectors = Result.collect(parsed.data.map(createCustomDetector))
+  if (!detectors.ok) return detectors
+
+  // Check conflicts up front so a bad file never leaves a partial rule set active
+  const taken = registry.list()
+  const conflict = detectors.value.find((detector, index, all) =>
+    [...taken, ...all.slice(0, index)].some(
+      (other) => other.id === detector.id || other.label === detector.label
+    )
+  )
+  if (conflict) {
+    return Result.err(
+      Errors.conflict(`Detector '${conflict.id}' conflicts with an existing id or label`)
+    )
+  }
+
+  for (const detector of detectors.value) {
+    registry.register(detector)
+  }
+  return Result.ok(detectors.value.length)
+}
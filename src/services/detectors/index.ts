@@ -0,0 +1,17 @@
+/**
+ * PII Detectors
+ *
+ * Single import point for the detector registry, built-ins and custom rules.
+ * Importing this module registers the built-in detectors.
+ */
+
+export { BUILTIN_DETECTORS, detectCardBrand } from './builtin'
+export type { ConfidenceThreshold, Decision, DetectorContext } from './context'
+export { contextRange, decide, DEFAULT_THRESHOLD, keywordContext, scoreMatch } from './context'
+export { createCustomDetector, loadCustomDetectors, registerCustomDetector } from './custom'
+export { LOCALE_DETECTORS } from './locales'
+export type { CandidateDetails, RegexDetectorOptions } from './regex'
+export { createRegexDetector } from './regex'
+export { DetectorRegistry, detectorRegistry } from './registry'
+export { secretDetector } from './secrets'
+export type { Detector, DetectorMatch, DetectorSource, MatchScanner } from './types'
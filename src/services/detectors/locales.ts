@@ -0,0 +1,136 @@
+/**
+ * Locale Packs
+ *
+ * National identifiers grouped by country, switched on through PII_LOCALES
+ * or a tenant policy:
+ * - mx: CURP and RFC (check digits), CLABE interbank numbers (3-7-1 weights)
+ * - ca: Social Insurance Numbers (Luhn)
+ * - uk: National Insurance numbers (prefix rules; the format has no check digit)
+ * - es: DNI and NIE (mod-23 control letter)
+ */
+
+import type { LocalePack } from '../../models/contracts'
+import { clabeCheck, curpCheck, luhnCheck, rfcCheck, spanishIdCheck } from '../../utils/checksum'
+import { type CandidateDetails, createRegexDetector } from './regex'
+import type { Detector } from './types'
+
+const DATE = String.raw`\d{2}(?:0[1-9]|1[0-2])(?:0[1-9]|[12]\d|3[01])`
+const MX_STATES =
+  'AS|BC|BS|CC|CL|CM|CS|CH|DF|DG|GT|GR|HG|JC|MC|MN|MS|NT|NL|OC|PL|QT|QR|SP|SL|SR|TC|TS|TL|VZ|YN|ZS|NE'
+
+const CURP_REGEX = new RegExp(
+  String.raw`\b[A-Z][AEIOUX][A-Z]{2}${DATE}[HMX](?:${MX_STATES})[B-DF-HJ-NP-TV-Z]{3}[A-Z\d]\d\b`,
+  'gi'
+)
+const RFC_REGEX = new RegExp(String.raw`(?<![\wÑ&])[A-ZÑ&]{3,4}${DATE}[A-Z\d]{3}(?!\w)`, 'gi')
+const CLABE_REGEX = /\b\d{3}[ -]?\d{3}[ -]?\d{11}[ -]?\d\b/g
+const CA_SIN_REGEX = /\b[1-79]\d{2}([ -]?)\d{3}\1\d{3}\b/g
+// Prefixes never issued: first letter D, F, I, Q, U, V; second letter D, F, I, O, Q, U, V
+const UK_NINO_REGEX =
+  /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi
+const ES_DNI_REGEX = /\b\d{8}-?[A-Z]\b/gi
+const ES_NIE_REGEX = /\b[XYZ]-?\d{7}-?[A-Z]\b/gi
+
+// Longest identifier with separators (a CLABE written 3-3-11-1)
+const MAX_ID_LENGTH = 21
+
+/** Build a validator that uppercases and strips separators before checking. */
+function checked(
+  check: (value: string) => boolean
+): (candidate: string) => CandidateDetails | null {
+  return (candidate) => (check(candidate.replace(/[ -]/g, '').toUpperCase()) ? {} : null)
+}
+
+export const LOCALE_DETECTORS: Record<LocalePack, Detector[]> = {
+  mx: [
+    createRegexDetector({
+      id: 'mx-curp',
+      type: 'MX_CURP',
+      label: 'MX_CURP',
+      source: 'builtin',
+      locale: 'mx',
+      regex: CURP_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.97,
+      validate: checked(curpCheck),
+    }),
+    createRegexDetector({
+      id: 'mx-rfc',
+      type: 'MX_RFC',
+      label: 'MX_RFC',
+      source: 'builtin',
+      locale: 'mx',
+      regex: RFC_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.9,
+      validate: checked(rfcCheck),
+    }),
+    createRegexDetector({
+      id: 'mx-clabe',
+      type: 'MX_CLABE',
+      label: 'MX_CLABE',
+      source: 'builtin',
+      locale: 'mx',
+      regex: CLABE_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.95,
+      validate: checked(clabeCheck),
+    }),
+  ],
+  ca: [
+    createRegexDetector({
+      id: 'ca-sin-luhn',
+      type: 'CA_SIN',
+      label: 'CA_SIN',
+      source: 'builtin',
+      locale: 'ca',
+      regex: CA_SIN_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.85,
+      validate: checked(luhnCheck),
+    }),
+  ],
+  uk: [
+    createRegexDetector({
+      id: 'uk-nino',
+      type: 'UK_NINO',
+      label: 'UK_NINO',
+      source: 'builtin',
+      locale: 'uk',
+      regex: UK_NINO_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.9,
+    }),
+  ],
+  es: [
+    createRegexDetector({
+      id: 'es-dni',
+      type: 'ES_DNI',
+      label: 'ES_DNI',
+      source: 'builtin',
+      locale: 'es',
+      regex: ES_DNI_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.95,
+      validate: checked(spanishIdCheck),
+    }),
+    createRegexDetector({
+      id: 'es-nie',
+      type: 'ES_NIE',
+      label: 'ES_NIE',
+      source: 'builtin',
+      locale: 'es',
+      regex: ES_NIE_REGEX,
+      priority: 60,
+      maxLength: MAX_ID_LENGTH,
+      confidence: 0.95,
+      validate: checked(spanishIdCheck),
+    }),
+  ],
+}
@@ -0,0 +1,62 @@
+/**
+ * Regex Detector Factory
+ *
+ * Builds a Detector from a global regex and an optional validator,
+ * the shape shared by all built-in and custom regex rules. The regex runs
+ * through the windowed scanner, so it never sees more than a window of text
+ * at a time, whatever the length of the message.
+ */
+
+import type { CardBrand } from '../../models/contracts'
+import { RegexScanner } from '../../utils/regexScan'
+import type { Detector, DetectorMatch, MatchScanner } from './types'
+
+/** Details attached to a validated candidate */
+export interface CandidateDetails {
+  brand?: CardBrand
+}
+
+export interface RegexDetectorOptions extends Omit<Detector, 'createScanner'> {
+  /** Must carry the `g` flag */
+  regex: RegExp
+  /** Rejects regex candidates by returning null; candidates without a validator always match */
+  validate?: (candidate: string) => CandidateDetails | null
+}
+
+/**
+ * Create a detector that reports every validated match of a regex.
+ *
+ * @param options - Detector metadata plus regex and validator
+ * @returns Detector
+ */
+export function createRegexDetector(options: RegexDetectorOptions): Detector {
+  const { regex, validate, ...metadata } = options
+
+  return {
+    ...metadata,
+    createScanner(): MatchScanner {
+      const scanner = new RegexScanner(regex, { maxLength: metadata.maxLength })
+
+      return {
+        get frontier() {
+          return scanner.frontier
+        },
+        get retainFrom() {
+          return scanner.retainFrom
+        },
+        scan(text: string, offset: number, final: boolean): DetectorMatch[] {
+          const matches: DetectorMatch[] = []
+
+          for (const { start, end } of scanner.scan(text, offset, final)) {
+            const details = validate ? validate(text.slice(start - offset, end - offset)) : {}
+            if (!details) continue
+
+            matches.push({ start, end, ...details })
+          }
+
+          return matches
+        },
+      }
+    },
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Detector Registry
+ *
+ * Holds the detectors the sanitizer runs, in registration order.
+ * Built-ins register themselves on import; custom detectors are added
+ * at startup from a config file or at runtime through the admin API.
+ */
+
+import { Errors, Result, type ResultType } from '../../lib'
+import type { Detector } from './types'
+
+export class DetectorRegistry {
+  readonly #detectors = new Map<string, Detector>()
+
+  /**
+   * Add a detector. Ids and labels must be unique across the registry.
+   *
+   * @param detector - Detector to add
+   * @returns Err(409) when the id or label is already taken
+   */
+  register(detector: Detector): ResultType<void> {
+    if (this.#detectors.has(detector.id)) {
+      return Result.err(Errors.conflict(`Detector '${detector.id}' is already registered`))
+    }
+    if (detector.source === 'custom' && this.list().some((d) => d.label === detector.label)) {
+      return Result.err(Errors.conflict(`Label '${detector.label}' is already in use`))
+    }
+
+    this.#detectors.set(detector.id, detector)
+    return Result.ok(undefined)
+  }
+
+  /**
+   * Remove a custom detector. Built-ins cannot be removed.
+   *
+   * @param id - Detector id
+   * @returns Err(404) when unknown, Err(403) for built-ins
+   */
+  unregister(id: string): ResultType<void> {
+    const detector = this.#detectors.get(id)
+    if (!detector) return Result.err(Errors.notFound(`Detector '${id}' not found`))
+    if (detector.source === 'builtin') {
+      return Result.err(Errors.forbidden(`Built-in detector '${id}' cannot be removed`))
+    }
+
+    this.#detectors.delete(id)
+    return Result.ok(undefined)
+  }
+
+  get(id: string): Detector | undefined {
+    return this.#detectors.get(id)
+  }
+
+  /** Detectors in registration order. */
+  list(): Detector[] {
+    return [...this.#detectors.values()]
+  }
+}
+
+/** Registry used by the gateway's sanitizer. */
+export const detectorRegistry = new DetectorRegistry()
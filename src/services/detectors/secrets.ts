@@ -0,0 +1,232 @@
+/**
+ * Secret Detector
+ *
+ * Credentials pasted into chat: PEM private key blocks (whole, multi-line),
+ * JWTs, AWS access keys, provider API keys recognised by their prefix,
+ * values assigned to password/secret/token keywords, and any other token
+ * random enough to be a generated credential. Everything is reported as
+ * SECRET with a subtype naming what was found.
+ */
+
+import type { SecretSubtype } from '../../models/contracts'
+import { shannonEntropy } from '../../utils/entropy'
+import { settleClusters } from '../../utils/ranges'
+import { RegexScanner, type ScanOpener } from '../../utils/regexScan'
+import type { Detector, DetectorMatch, MatchScanner } from './types'
+
+interface SecretRule {
+  subtype: SecretSubtype
+  /** Must carry the `g` flag, plus `d` when `group` is set */
+  regex: RegExp
+  /** Capture group holding the secret; the whole match when omitted */
+  group?: number
+  /** Longest match the regex can produce */
+  maxLength: number
+  /** How every match begins, so a stream is only held back from a possible start */
+  opener?: ScanOpener
+  validate?: (candidate: string) => boolean
+}
+
+// Bounds for tokens made of base64/base64url/hex characters
+const TOKEN_START = String.raw`(?<![A-Za-z0-9+/_=-])`
+const TOKEN_END = String.raw`(?![A-Za-z0-9+/_=-])`
+// Longest token, JWT segment and assigned value considered; longer ones are not reported
+const MAX_TOKEN_LENGTH = 4096
+const MAX_VALUE_LENGTH = 1024
+// Room for an 8192-bit RSA key; a larger body is reported as a truncated block
+const MAX_PEM_BODY = 8192
+
+const PEM_LABEL = String.raw`(?:[A-Z0-9]{1,16} ){0,3}PRIVATE KEY(?: BLOCK)?`
+const PEM_OPENER: ScanOpener = { regex: /-----BEGIN /g, maxLength: 11 }
+// A block without its END line (truncated paste) runs to the end of its base64 body.
+// The body never crosses another BEGIN line, so repeated headers are scanned once.
+const PRIVATE_KEY_REGEX = new RegExp(
+  String.raw`-----BEGIN ${PEM_LABEL}-----(?:(?:(?!-----BEGIN )[\s\S]){0,${MAX_PEM_BODY}}?-----END ${PEM_LABEL}-----|[A-Za-z0-9+/=\r\n\t ]{0,${MAX_PEM_BODY}})`,
+  'g'
+)
+
+const JWT_SEGMENT = String.raw`[A-Za-z0-9_-]{5,${MAX_TOKEN_LENGTH}}`
+const JWT_REGEX = new RegExp(
+  String.raw`${TOKEN_START}eyJ${JWT_SEGMENT}\.eyJ${JWT_SEGMENT}\.[A-Za-z0-9_-]{0,${MAX_TOKEN_LENGTH}}${TOKEN_END}`,
+  'g'
+)
+const JWT_OPENER: ScanOpener = { regex: new RegExp(`${TOKEN_START}eyJ`, 'g'), maxLength: 3 }
+
+const AWS_ACCESS_KEY_REGEX =
+  /\b(?:AKIA|ASIA|ABIA|ACCA|AGPA|AIDA|AIPA|ANPA|ANVA|AROA|APKA|ASCA)[A-Z0-9]{16}\b/g
+
+// Well-known provider token formats
+const PROVIDER_PREFIXES = [
+  String.raw`gh[pousr]_[A-Za-z0-9]{36,255}`, // GitHub
+  String.raw`github_pat_[A-Za-z0-9_]{22,255}`, // GitHub fine-grained
+  String.raw`glpat-[A-Za-z0-9_-]{20,255}`, // GitLab
+  String.raw`(?:sk|rk|pk)_(?:live|test)_[A-Za-z0-9]{16,255}`, // Stripe
+  String.raw`xox[abeprs]-[A-Za-z0-9-]{10,255}`, // Slack
+  String.raw`sk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,255}`, // OpenAI, Anthropic
+  String.raw`AIza[0-9A-Za-z_-]{35}`, // Google
+  String.raw`npm_[A-Za-z0-9]{36}`, // npm
+  String.raw`SG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}`, // SendGrid
+]
+const API_KEY_REGEX = new RegExp(
+  `${TOKEN_START}(?:${PROVIDER_PREFIXES.join('|')})${TOKEN_END}`,
+  'g'
+)
+
+// Keyword, quotes and spacing ahead of an assigned value
+const ASSIGNMENT_PREFIX_LENGTH = 64
+
+/** `keyword: value` / `keyword = "value"`; the value is captured in group 1 */
+function assignmentRule(
+  subtype: SecretSubtype,
+  keywords: string
+): Pick<SecretRule, 'subtype' | 'regex' | 'group' | 'maxLength' | 'opener'> {
+  return {
+    subtype,
+    regex: new RegExp(
+      String.raw`\b(?:${keywords})\b["']?[ \t]{0,8}[:=][ \t]{0,8}["']?([^\s"',;]{4,${MAX_VALUE_LENGTH}})`,
+      'gid'
+    ),
+    group: 1,
+    maxLength: ASSIGNMENT_PREFIX_LENGTH + MAX_VALUE_LENGTH,
+    opener: {
+      regex: new RegExp(String.raw`\b(?:${keywords})\b`, 'gi'),
+      maxLength: ASSIGNMENT_PREFIX_LENGTH,
+    },
+  }
+}
+
+// Stops at '@' and at dots inside names so email local parts and domains are left alone
+const HIGH_ENTROPY_REGEX = new RegExp(
+  String.raw`(?<![\w+/=.@-])[\w+/=-]{24,${MAX_TOKEN_LENGTH}}(?![\w+/=@-]|\.\w)`,
+  'g'
+)
+// Prose words are shorter, so ordinary text never opens a candidate token
+const HIGH_ENTROPY_OPENER: ScanOpener = { regex: /(?<![\w+/=.@-])[\w+/=-]{24}/g, maxLength: 24 }
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const HEX_REGEX = /^[0-9a-fA-F]{32,}$/
+// Minimum bits per character; hex tops out at 4, base64 at 6
+const MIN_HEX_ENTROPY = 3
+const MIN_ENTROPY = 3.5
+
+/**
+ * Accept tokens that mix character classes and look random.
+ * Long hex strings (key material, digests) need digits and letters;
+ * anything else needs digits plus both letter cases. UUIDs are identifiers, not secrets.
+ */
+function isHighEntropy(candidate: string): boolean {
+  if (UUID_REGEX.test(candidate) || !/\d/.test(candidate)) return false
+
+  if (HEX_REGEX.test(candidate)) {
+    return /[a-fA-F]/.test(candidate) && shannonEntropy(candidate) >= MIN_HEX_ENTROPY
+  }
+  return (
+    /[a-z]/.test(candidate) && /[A-Z]/.test(candidate) && shannonEntropy(candidate) >= MIN_ENTROPY
+  )
+}
+
+// In priority order: when two rules overlap, the earlier one claims the text
+const SECRET_RULES: SecretRule[] = [
+  // BEGIN and END lines take at most 84 characters each
+  {
+    subtype: 'PRIVATE_KEY',
+    regex: PRIVATE_KEY_REGEX,
+    maxLength: MAX_PEM_BODY + 168,
+    opener: PEM_OPENER,
+  },
+  { subtype: 'JWT', regex: JWT_REGEX, maxLength: 3 * MAX_TOKEN_LENGTH + 8, opener: JWT_OPENER },
+  { subtype: 'AWS_ACCESS_KEY', regex: AWS_ACCESS_KEY_REGEX, maxLength: 20 },
+  assignmentRule('AWS_SECRET_KEY', String.raw`aws[_-]?secret[_-]?access[_-]?key`),
+  { subtype: 'API_KEY', regex: API_KEY_REGEX, maxLength: 266 },
+  assignmentRule('PASSWORD', 'password|passwd|pwd|passphrase'),
+  assignmentRule(
+    'API_KEY',
+    String.raw`secret|client[_-]?secret|api[_-]?key|(?:access|auth|refresh)[_-]?token`
+  ),
+  {
+    subtype: 'HIGH_ENTROPY',
+    regex: HIGH_ENTROPY_REGEX,
+    maxLength: MAX_TOKEN_LENGTH,
+    opener: HIGH_ENTROPY_OPENER,
+    validate: isHighEntropy,
+  },
+]
+
+/** A validated match waiting for overlaps with earlier rules to be resolved */
+interface RuleMatch extends DetectorMatch {
+  /** Index of the rule that found it; lower indexes win overlaps */
+  rule: number
+}
+
+/**
+ * Keep the match of the earliest rule wherever matches overlap.
+ *
+ * @param cluster - Transitively overlapping matches, sorted by start
+ * @returns Surviving matches in text order
+ */
+function resolveByRule(cluster: RuleMatch[]): DetectorMatch[] {
+  const origin = cluster[0].start
+  const end = cluster.reduce((max, match) => Math.max(max, match.end), origin)
+  // Characters claimed by an earlier rule, so overlap checks stay linear
+  const claimed = new Uint8Array(end - origin)
+  const kept: DetectorMatch[] = []
+
+  for (const { rule, ...match } of [...cluster].sort((a, b) => a.rule - b.rule)) {
+    if (claimed.subarray(match.start - origin, match.end - origin).includes(1)) continue
+    claimed.fill(1, match.start - origin, match.end - origin)
+    kept.push(match)
+  }
+  return kept.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Find every secret in a text, resolving overlaps by rule priority. A match
+ * is reported once no rule can still find an overlapping one.
+ */
+function createSecretScanner(): MatchScanner {
+  const scanners = SECRET_RULES.map(
+    (rule) => new RegexScanner(rule.regex, { maxLength: rule.maxLength, opener: rule.opener })
+  )
+  let pending: RuleMatch[] = []
+  let frontier = 0
+
+  return {
+    get frontier() {
+      return frontier
+    },
+    get retainFrom() {
+      return Math.min(frontier, ...scanners.map((scanner) => scanner.retainFrom))
+    },
+    scan(text: string, offset: number, final: boolean): DetectorMatch[] {
+      for (const [index, rule] of SECRET_RULES.entries()) {
+        for (const scanned of scanners[index].scan(text, offset, final)) {
+          const [start, end] = rule.group
+            ? (scanned.indices?.[rule.group] ?? [scanned.start, scanned.start])
+            : [scanned.start, scanned.end]
+          if (end <= start) continue
+          if (rule.validate && !rule.validate(text.slice(start - offset, end - offset))) continue
+
+          pending.push({ start, end, subtype: rule.subtype, rule: index })
+        }
+      }
+
+      // Matches still to come start at or after every rule's frontier
+      const scanned = final ? Infinity : Math.min(...scanners.map((scanner) => scanner.frontier))
+      const clusters = settleClusters(pending, (match) => match, scanned)
+      pending = clusters.pending
+      frontier = Math.min(scanned, pending[0]?.start ?? Infinity, offset + text.length)
+
+      return clusters.settled.flatMap(resolveByRule)
+    },
+  }
+}
+
+export const secretDetector: Detector = {
+  id: 'secret',
+  type: 'SECRET',
+  label: 'SECRET',
+  source: 'builtin',
+  priority: 90,
+  maxLength: Math.max(...SECRET_RULES.map((rule) => rule.maxLength)),
+  confidence: 0.9,
+  createScanner: createSecretScanner,
+}
@@ -0,0 +1,69 @@
+/**
+ * Detector Types
+ *
+ * Common interface implemented by every PII detector, built-in or custom.
+ */
+
+import type { CardBrand, LocalePack, PIIType, SecretSubtype } from '../../models/contracts'
+import type { DetectorContext } from './context'
+
+/** Where a detector came from */
+export type DetectorSource = 'builtin' | 'custom'
+
+/** A validated match found by a detector, as offsets into the scanned text */
+export interface DetectorMatch {
+  start: number
+  end: number
+  brand?: CardBrand
+  subtype?: SecretSubtype
+}
+
+/**
+ * Finds a detector's matches in one text, which may arrive in pieces.
+ * Fed the same text in any pieces, it reports the same matches, each as
+ * soon as no later text can change it.
+ */
+export interface MatchScanner {
+  /** Every match starting before this offset has been reported */
+  readonly frontier: number
+  /** Earliest offset later scans read; never past the frontier */
+  readonly retainFrom: number
+  /**
+   * Scan the text that has arrived so far.
+   *
+   * @param text - Text from `offset` to the end of what has arrived; must start at or before retainFrom
+   * @param offset - Offset of `text` in the whole text
+   * @param final - No more text will arrive
+   * @returns Newly settled matches, in order and without overlaps, with offsets into the whole text
+   */
+  scan(text: string, offset: number, final: boolean): DetectorMatch[]
+}
+
+/** A PII detector the sanitizer can run */
+export interface Detector {
+  /** Unique rule id reported in span metadata */
+  id: string
+  type: PIIType
+  /** Label used in placeholders, tokens and redactedItems; equals `type` for built-ins */
+  label: string
+  source: DetectorSource
+  /** Locale pack the detector belongs to; it only runs when the pack is enabled */
+  locale?: LocalePack
+  /**
+   * Rank when matches from different detectors overlap; the higher one wins,
+   * then the higher score, then the longer match
+   */
+  priority: number
+  /**
+   * Longest match the detector can report. Bounds how far any scan looks
+   * ahead, which keeps detection linear in the length of the text and
+   * bounds how much text a streaming scan holds back.
+   */
+  maxLength: number
+  /** Base confidence of a match, before context scoring */
+  confidence: number
+  /** Keywords near a match that raise or lower its score */
+  context?: DetectorContext
+  /** Start finding validated matches in a new text */
+  createScanner(): MatchScanner
+}
@@ -0,0 +1,49 @@
+/**
+ * Egress Sanitization
+ *
+ * Scans the AI answer with the same detectors and tenant policy as the
+ * inquiry before it reaches the client or the audit log, so PII the model
+ * hallucinates or echoes back is redacted too. When the answer contains a
+ * type the policy withholds on, the client gets a notice instead.
+ */
+
+import type { PIIType, SanitizeResult } from '../models/contracts'
+import type { ConfidenceThreshold } from './detectors'
+import type { ResolvedPolicy } from './policy'
+import { sanitize } from './sanitizer'
+
+/** Sent in place of an answer withheld under the egress policy */
+export const WITHHELD_ANSWER = 'The answer was withheld because it contained sensitive data.'
+
+/** Outcome of scanning an AI answer */
+export interface EgressResult extends SanitizeResult {
+  /** Types in the answer that triggered the withhold rule; empty when delivered */
+  withheldTypes: PIIType[]
+}
+
+/**
+ * Sanitize an AI answer under a tenant policy.
+ * Tokens from a tokenize-mode vault never match a detector, so the answer
+ * is scanned before rehydration and the user's own values survive it.
+ *
+ * @param answer - Answer as returned by the AI provider
+ * @param policy - Resolved tenant policy for the inquiry
+ * @param thresholds - Per-type score thresholds (PII_THRESHOLDS)
+ * @returns Sanitized answer with its detections and any withhold triggers
+ */
+export function sanitizeAnswer(
+  answer: string,
+  policy: ResolvedPolicy,
+  thresholds: Partial<Record<PIIType, ConfidenceThreshold>> = {}
+): EgressResult {
+  const result = sanitize(answer, {
+    masking: policy.masking,
+    allowTypes: policy.allowTypes,
+    locales: policy.locales,
+    thresholds,
+  })
+  const found = new Set(result.redactedItems.map((item) => item.type))
+  const withheldTypes = policy.withholdTypes.filter((type) => found.has(type))
+
+  return { ...result, withheldTypes }
+}
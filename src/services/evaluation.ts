@@ -0,0 +1,256 @@
+/**
+ * Sanitizer Evaluation
+ *
+ * Scores the sanitizer against a labeled JSONL corpus: each line holds a
+ * text and the spans that should be redacted. A detection counts as a true
+ * positive when it overlaps an expected span of the same type; each
+ * expected span is credited once. Flagged detections are left in place by
+ * the sanitizer, so they count as misses rather than hits.
+ *
+ * Reports can be compared against a stored baseline, so rule changes that
+ * lower precision or recall fail in tests and CI.
+ */
+
+import { Errors, Result, type ResultType } from '../lib'
+import {
+  type CorpusSample,
+  corpusSampleSchema,
+  type EvaluationBaseline,
+  type EvaluationMiss,
+  type EvaluationReport,
+  type TypeMetrics,
+} from '../models/evaluation'
+import { sanitize, type SanitizeOptions } from './sanitizer'
+
+/** Key used for the micro average in reports and baselines */
+export const OVERALL = 'ALL'
+
+export interface EvaluateOptions extends SanitizeOptions {
+  /** Examples listed per kind of error (default 10) */
+  maxExamples?: number
+}
+
+interface Counts {
+  truePositives: number
+  falsePositives: number
+  falseNegatives: number
+}
+
+/**
+ * Parse a JSONL corpus, skipping blank lines.
+ *
+ * @returns The samples, or a validation error naming the first bad line
+ */
+export function parseCorpus(jsonl: string): ResultType<CorpusSample[]> {
+  const samples: CorpusSample[] = []
+  const lines = jsonl.split(/\r?\n/)
+
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() === '') continue
+    let raw: unknown
+    try {
+      raw = JSON.parse(line)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'invalid JSON'
+      return Result.err(Errors.validation(`Corpus line ${index + 1}: ${message}`))
+    }
+    const parsed = corpusSampleSchema.safeParse(raw)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      const where = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : ''
+      return Result.err(Errors.validation(`Corpus line ${index + 1}${where}: ${issue.message}`))
+    }
+    samples.push(parsed.data)
+  }
+  return Result.ok(samples)
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000
+}
+
+function toMetrics(type: string, counts: Counts): TypeMetrics {
+  const { truePositives: tp, falsePositives: fp, falseNegatives: fn } = counts
+  // No predictions means no wrong ones; no expected values means none missed
+  const precision = tp + fp === 0 ? 1 : tp / (tp + fp)
+  const recall = tp + fn === 0 ? 1 : tp / (tp + fn)
+  const f1 = precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall)
+
+  return { type, ...counts, precision: round(precision), recall: round(recall), f1: round(f1) }
+}
+
+/**
+ * Run the sanitizer over every sample and score its detections.
+ *
+ * @param samples - Parsed corpus
+ * @param options - Sanitizer options (registry, locales, thresholds) plus report size
+ */
+export function evaluate(samples: CorpusSample[], options: EvaluateOptions = {}): EvaluationReport {
+  const { maxExamples = 10, ...sanitizeOptions } = options
+  const counts = new Map<string, Counts>()
+  const falsePositives: EvaluationMiss[] = []
+  const falseNegatives: EvaluationMiss[] = []
+
+  const countsFor = (type: string): Counts => {
+    let entry = counts.get(type)
+    if (!entry) {
+      entry = { truePositives: 0, falsePositives: 0, falseNegatives: 0 }
+      counts.set(type, entry)
+    }
+    return entry
+  }
+
+  for (const [index, sample] of samples.entries()) {
+    const name = sample.id ?? `#${index + 1}`
+    const detected = sanitize(sample.text, sanitizeOptions).spans.filter((span) => !span.flagged)
+    const matched = new Set<number>()
+
+    for (const span of detected) {
+      const type = span.label ?? span.type
+      const hit = sample.spans.findIndex(
+        (expected, i) =>
+          !matched.has(i) &&
+          (expected.label ?? expected.type) === type &&
+          expected.start < span.end &&
+          span.start < expected.end
+      )
+      if (hit >= 0) {
+        matched.add(hit)
+        countsFor(type).truePositives++
+      } else {
+        countsFor(type).falsePositives++
+        falsePositives.push({
+          sample: name,
+          type,
+          start: span.start,
+          end: span.end,
+          text: sample.text.slice(span.start, span.end),
+          confidence: span.confidence,
+        })
+      }
+    }
+
+    for (const [i, expected] of sample.spans.entries()) {
+      if (matched.has(i)) continue
+      const type = expected.label ?? expected.type
+      countsFor(type).falseNegatives++
+      falseNegatives.push({
+        sample: name,
+        type,
+        start: expected.start,
+        end: expected.end,
+        text: sample.text.slice(expected.start, expected.end),
+      })
+    }
+  }
+
+  const types = [...counts.entries()]
+    .map(([type, entry]) => toMetrics(type, entry))
+    .sort((a, b) => a.type.localeCompare(b.type))
+  const total = types.reduce<Counts>(
+    (sum, metrics) => ({
+      truePositives: sum.truePositives + metrics.truePositives,
+      falsePositives: sum.falsePositives + metrics.falsePositives,
+      falseNegatives: sum.falseNegatives + metrics.falseNegatives,
+    }),
+    { truePositives: 0, falsePositives: 0, falseNegatives: 0 }
+  )
+  const recallOf = new Map(types.map((metrics) => [metrics.type, metrics.recall]))
+
+  // Stable sorts keep corpus order among equally bad examples
+  falsePositives.sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0))
+  falseNegatives.sort((a, b) => (recallOf.get(a.type) ?? 0) - (recallOf.get(b.type) ?? 0))
+
+  return {
+    samples: samples.length,
+    overall: toMetrics(OVERALL, total),
+    types,
+    falsePositives: falsePositives.slice(0, maxExamples),
+    falseNegatives: falseNegatives.slice(0, maxExamples),
+  }
+}
+
+/**
+ * Snapshot a report's scores as a baseline for later runs.
+ */
+export function toBaseline(report: EvaluationReport): EvaluationBaseline {
+  const baseline: EvaluationBaseline = {}
+  for (const { type, precision, recall, f1 } of [report.overall, ...report.types]) {
+    baseline[type] = { precision, recall, f1 }
+  }
+  return baseline
+}
+
+/**
+ * List every score that fell below its baseline by more than the tolerance.
+ * Types the corpus no longer exercises are skipped.
+ *
+ * @returns Human-readable regressions; empty when the report meets the baseline
+ */
+export function compareToBaseline(
+  report: EvaluationReport,
+  baseline: EvaluationBaseline,
+  tolerance = 0
+): string[] {
+  const byType = new Map([report.overall, ...report.types].map((m) => [m.type, m]))
+  const regressions: string[] = []
+
+  for (const [type, minimum] of Object.entries(baseline)) {
+    const metrics = byType.get(type)
+    if (!metrics) continue
+    for (const score of ['precision', 'recall', 'f1'] as const) {
+      if (metrics[score] + tolerance < minimum[score]) {
+        regressions.push(
+          `${type} ${score} ${metrics[score].toFixed(4)} is below baseline ${minimum[score].toFixed(4)}`
+        )
+      }
+    }
+  }
+  return regressions
+}
+
+function describeMiss(miss: EvaluationMiss): string {
+  const confidence = miss.confidence === undefined ? '' : ` (confidence ${miss.confidence})`
+  return `  ${miss.sample} ${miss.type} ${JSON.stringify(miss.text)} at ${miss.start}-${miss.end}${confidence}`
+}
+
+/**
+ * Render a report as a plain-text table followed by the worst errors.
+ */
+export function formatReport(report: EvaluationReport): string {
+  const rows = [...report.types, report.overall].map((m) => [
+    m.type,
+    String(m.truePositives),
+    String(m.falsePositives),
+    String(m.falseNegatives),
+    m.precision.toFixed(4),
+    m.recall.toFixed(4),
+    m.f1.toFixed(4),
+  ])
+  const header = ['TYPE', 'TP', 'FP', 'FN', 'PRECISION', 'RECALL', 'F1']
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => row[column].length))
+  )
+  const line = (cells: string[]) =>
+    cells
+      .map((cell, column) =>
+        column === 0 ? cell.padEnd(widths[0]) : cell.padStart(widths[column])
+      )
+      .join('  ')
+
+  const lines = [
+    `Samples: ${report.samples}`,
+    '',
+    line(header),
+    ...rows.slice(0, -1).map(line),
+    line(widths.map((width) => '-'.repeat(width))),
+    line(rows[rows.length - 1]),
+  ]
+  if (report.falsePositives.length > 0) {
+    lines.push('', 'Worst false positives:', ...report.falsePositives.map(describeMiss))
+  }
+  if (report.falseNegatives.length > 0) {
+    lines.push('', 'Worst false negatives:', ...report.falseNegatives.map(describeMiss))
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,111 @@
+/**
+ * JSON Sanitizer
+ *
+ * Walks arbitrary JSON (form fields, metadata, tool-call arguments) and
+ * sanitizes every string leaf with the message sanitizer. Values under
+ * always-sensitive keys (`email`, `ssn`, `dob` by default) are replaced
+ * whole, whatever they contain, following the same allow and masking
+ * policy as detections in free text. Detections are reported by JSON pointer
+ * (RFC 6901) so clients can tell which field held what.
+ */
+
+import type { JsonDetection, MaskingStrategy, PIIType, RedactedItem } from '../models/contracts'
+import { piiTypeSchema } from '../models/inquiry'
+import { applyMask } from './masking'
+import { mergeRedactedItems, sanitize, type SanitizeOptions } from './sanitizer'
+
+export const DEFAULT_SENSITIVE_KEYS = ['email', 'ssn', 'dob']
+
+export interface JsonSanitizeOptions extends SanitizeOptions {
+  /**
+   * Keys whose values are always redacted, compared ignoring case and
+   * separators (`dob` also matches `DOB` and `d_o_b`)
+   */
+  sensitiveKeys?: string[]
+}
+
+/** Result of sanitizing a JSON value */
+export interface JsonSanitizeResult {
+  /** Sanitized copy of the input */
+  value: unknown
+  /** Summary across all leaves, merged per type and strategy */
+  redactedItems: RedactedItem[]
+  /** Detections per JSON pointer, in document order */
+  detections: JsonDetection[]
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1')
+}
+
+/**
+ * Sanitize every string leaf of a JSON value.
+ *
+ * @param value - Parsed JSON (objects, arrays, strings, numbers, booleans, null)
+ * @param options - Sanitizer options plus the always-sensitive keys
+ * @returns Sanitized copy with merged redactedItems and per-pointer detections
+ */
+export function sanitizeJson(
+  value: unknown,
+  options: JsonSanitizeOptions = {}
+): JsonSanitizeResult {
+  const { sensitiveKeys = DEFAULT_SENSITIVE_KEYS, ...sanitizeOptions } = options
+  const sensitive = new Set(sensitiveKeys.map(normalizeKey))
+  const redactedItems: RedactedItem[] = []
+  const detections: JsonDetection[] = []
+
+  /** Replace a value held under a sensitive key as the policy says: allow, tokenize or mask */
+  function redactByKey(key: string, original: unknown, path: string): unknown {
+    const label = normalizeKey(key).toUpperCase()
+    const parsed = piiTypeSchema.safeParse(label)
+    const type: PIIType = parsed.success ? parsed.data : 'CUSTOM'
+    const { tokenVault, masking, allowTypes = [] } = sanitizeOptions
+    const allowed = allowTypes.includes(type)
+    const configured = masking?.strategies[type] ?? 'redact'
+    const strategy: MaskingStrategy = allowed ? 'none' : tokenVault ? 'tokenize' : configured
+    const serialized = typeof original === 'string' ? original : JSON.stringify(original)
+
+    detections.push({ path, sensitiveKey: key })
+    mergeRedactedItems(redactedItems, [
+      {
+        type,
+        ...(type === 'CUSTOM' && { label }),
+        count: 1,
+        strategy,
+      },
+    ])
+    if (allowed) return original
+    return tokenVault
+      ? tokenVault.tokenize(type, serialized, label)
+      : applyMask(type, serialized, configured, masking?.hmacKey, label)
+  }
+
+  function walk(node: unknown, path: string): unknown {
+    if (typeof node === 'string') {
+      const result = sanitize(node, sanitizeOptions)
+      if (result.spans.length > 0) detections.push({ path, spans: result.spans })
+      mergeRedactedItems(redactedItems, result.redactedItems)
+      return result.redactedMessage
+    }
+    if (Array.isArray(node)) {
+      return node.map((child, index) => walk(child, `${path}/${index}`))
+    }
+    if (node !== null && typeof node === 'object') {
+      // fromEntries defines own properties, so a "__proto__" key stays a plain field
+      return Object.fromEntries(
+        Object.entries(node).map(([key, child]) => {
+          const childPath = `${path}/${escapePointer(key)}`
+          const redact = sensitive.has(normalizeKey(key)) && child !== null && child !== ''
+          return [key, redact ? redactByKey(key, child, childPath) : walk(child, childPath)]
+        })
+      )
+    }
+    return node
+  }
+
+  return { value: walk(value, ''), redactedItems, detections }
+}
@@ -0,0 +1,128 @@
+/**
+ * Masking Strategies
+ *
+ * Per-PII-type replacement strategies applied by the sanitizer:
+ * - redact: `<REDACTED: TYPE>` (default)
+ * - partial: keep the identifying tail (`**** **** **** 4242`, `***@example.com`)
+ * - hash: keyed HMAC pseudonym (`<EMAIL:3f9a0c...>`), stable across messages
+ * - format-preserving: keyed pseudonym with the same shape as the original
+ */
+
+import crypto from 'node:crypto'
+
+import type { MaskingStrategy, PIIType } from '../models/contracts'
+
+/**
+ * Strategies that can be configured per type; 'tokenize' is chosen per request
+ * and 'none' follows from an 'allow' policy
+ */
+export type ConfigurableMaskingStrategy = Exclude<MaskingStrategy, 'tokenize' | 'none'>
+
+/** Masking configuration: strategy per PII type plus the key for keyed strategies */
+export interface MaskingConfig {
+  strategies: Partial<Record<PIIType, ConfigurableMaskingStrategy>>
+  /** Hex-encoded HMAC key, required by 'hash' and 'format-preserving' */
+  hmacKey?: string
+}
+
+const HASH_LENGTH = 12 // hex chars kept from the HMAC digest
+const PARTIAL_VISIBLE = 4 // trailing characters left visible by 'partial'
+
+/**
+ * Canonical form used to decide whether two matches are the same value.
+ * Emails compare case-insensitively; secrets must match exactly;
+ * numeric identifiers ignore separators.
+ */
+export function canonicalize(label: string, value: string): string {
+  if (label === 'EMAIL') return value.toLowerCase()
+  if (label === 'SECRET') return value
+  return value.replace(/[\s().-]/g, '').toUpperCase()
+}
+
+/**
+ * Keyed HMAC of the canonical value, extended with a counter when more bytes are needed.
+ */
+function keyedDigest(label: string, value: string, hmacKey: string, minBytes: number): Buffer {
+  const key = Buffer.from(hmacKey, 'hex')
+  const blocks: Buffer[] = []
+  for (let counter = 0; blocks.length * 32 < minBytes; counter++) {
+    blocks.push(
+      crypto
+        .createHmac('sha256', key)
+        .update(`${label}:${canonicalize(label, value)}:${counter}`)
+        .digest()
+    )
+  }
+  return Buffer.concat(blocks)
+}
+
+function requireKey(strategy: MaskingStrategy, hmacKey: string | undefined): string {
+  if (!hmacKey) throw new Error(`Masking strategy '${strategy}' requires an HMAC key`)
+  return hmacKey
+}
+
+/**
+ * Mask every letter and digit except the last few, preserving separators.
+ * Emails keep their domain instead.
+ */
+function partialMask(type: PIIType, value: string): string {
+  if (type === 'EMAIL') {
+    return `***${value.slice(value.lastIndexOf('@'))}`
+  }
+
+  let visible = PARTIAL_VISIBLE
+  const chars = value.split('')
+  for (let i = chars.length - 1; i >= 0; i--) {
+    if (!/[a-zA-Z0-9]/.test(chars[i])) continue
+    if (visible > 0) visible--
+    else chars[i] = '*'
+  }
+  return chars.join('')
+}
+
+/**
+ * Replace each digit with a digit and each letter with a letter of the same
+ * case, derived from the keyed digest. Separators, `@` and `.` are kept.
+ */
+function formatPreservingMask(label: string, value: string, hmacKey: string): string {
+  const digest = keyedDigest(label, value, hmacKey, value.length)
+
+  return value.replace(/[a-zA-Z0-9]/g, (char, offset: number) => {
+    const byte = digest[offset]
+    if (/\d/.test(char)) return String(byte % 10)
+    const letter = String.fromCharCode(97 + (byte % 26))
+    return char === char.toUpperCase() ? letter.toUpperCase() : letter
+  })
+}
+
+/**
+ * Produce the replacement for a detected value under the given strategy.
+ * 'tokenize' is handled by the TokenVault and 'none' by the sanitizer; neither reaches here.
+ *
+ * @param type - PII type of the value
+ * @param value - Original matched text
+ * @param strategy - Strategy configured for the type
+ * @param hmacKey - Key for 'hash' and 'format-preserving'
+ * @param label - Label shown in placeholders; custom detectors use their own
+ * @returns Replacement text
+ */
+export function applyMask(
+  type: PIIType,
+  value: string,
+  strategy: ConfigurableMaskingStrategy,
+  hmacKey?: string,
+  label: string = type
+): string {
+  switch (strategy) {
+    case 'redact':
+      return `<REDACTED: ${label}>`
+    case 'partial':
+      return partialMask(type, value)
+    case 'hash': {
+      const digest = keyedDigest(label, value, requireKey(strategy, hmacKey), 32)
+      return `<${label}:${digest.toString('hex').slice(0, HASH_LENGTH)}>`
+    }
+    case 'format-preserving':
+      return formatPreservingMask(label, value, requireKey(strategy, hmacKey))
+  }
+}
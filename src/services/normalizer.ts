@@ -0,0 +1,334 @@
+/**
+ * Detection Normalizer
+ *
+ * Builds a canonical view of a message so detectors see through common
+ * evasions: zero-width and bidi control characters, fullwidth and other
+ * compatibility forms (NFKC), Cyrillic/Greek homoglyphs, Unicode dashes,
+ * spaced-out digits ("4 1 1 1 ...") and spelled-out emails
+ * ("john at example dot com"). Every canonical character remembers the
+ * range of original characters it came from, so matches found on the view
+ * can be mapped back and the original characters redacted.
+ */
+
+import { RegexScanner } from '../utils/regexScan'
+
+/**
+ * Canonical text plus, per canonical character, the original range it came
+ * from. Offsets are absolute: characters before `offset` have been released
+ * once nothing needs them any more, which bounds memory while streaming.
+ */
+export class CanonicalBuffer {
+  /** Offset of the first character still held */
+  offset = 0
+  /** Characters from `offset` on */
+  text = ''
+  #starts = new Uint32Array(256)
+  #ends = new Uint32Array(256)
+
+  /** Offset just past the last character */
+  get end(): number {
+    return this.offset + this.text.length
+  }
+
+  /** Original offset where the source of canonical character `at` starts */
+  originalStart(at: number): number {
+    return this.#starts[at - this.offset]
+  }
+
+  /** Original offset where the source of canonical character `at` ends (exclusive) */
+  originalEnd(at: number): number {
+    return this.#ends[at - this.offset]
+  }
+
+  /** Append characters that all come from one original range. */
+  append(text: string, start: number, end: number): void {
+    const length = this.#reserve(text.length)
+    this.#starts.fill(start, length, length + text.length)
+    this.#ends.fill(end, length, length + text.length)
+    this.text += text
+  }
+
+  /** Append original characters unchanged, the first one at original offset `start`. */
+  appendOriginal(text: string, start: number): void {
+    const length = this.#reserve(text.length)
+    for (let i = 0; i < text.length; i++) {
+      this.#starts[length + i] = start + i
+      this.#ends[length + i] = start + i + 1
+    }
+    this.text += text
+  }
+
+  /** Append characters `from` to `to` of another buffer, keeping their original ranges. */
+  copy(source: CanonicalBuffer, from: number, to: number): void {
+    if (to <= from) return
+    const length = this.#reserve(to - from)
+    this.#starts.set(source.#starts.subarray(from - source.offset, to - source.offset), length)
+    this.#ends.set(source.#ends.subarray(from - source.offset, to - source.offset), length)
+    this.text += source.text.slice(from - source.offset, to - source.offset)
+  }
+
+  /** Let go of characters before `offset`; they are dropped in batches. */
+  release(offset: number): void {
+    const count = Math.min(offset, this.end) - this.offset
+    // Dropping only once half the buffer is dead keeps the copying linear overall
+    if (count < RELEASE_BATCH || 2 * count < this.text.length) return
+
+    this.#starts.copyWithin(0, count, this.text.length)
+    this.#ends.copyWithin(0, count, this.text.length)
+    this.text = this.text.slice(count)
+    this.offset += count
+  }
+
+  /** Grow the arrays to fit `count` more characters; returns the current length. */
+  #reserve(count: number): number {
+    const length = this.text.length
+    if (length + count > this.#starts.length) {
+      const capacity = Math.max(2 * this.#starts.length, length + count)
+      const starts = new Uint32Array(capacity)
+      const ends = new Uint32Array(capacity)
+      starts.set(this.#starts.subarray(0, length))
+      ends.set(this.#ends.subarray(0, length))
+      this.#starts = starts
+      this.#ends = ends
+    }
+    return length
+  }
+}
+
+// Fewest dead characters worth dropping from a buffer
+const RELEASE_BATCH = 1024
+
+// Invisible characters that only serve to split tokens (soft hyphen, zero-width, bidi controls)
+const INVISIBLE = /[\u00AD\u180E\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/
+
+// Look-alikes that NFKC leaves alone, as [sources, ASCII targets] pairs
+const HOMOGLYPH_PAIRS: [string, string][] = [
+  // Cyrillic
+  ['авеіјкмнорстухѕԁԛԝ', 'abeijkmhopctyxsdqw'],
+  ['АВЕІЈКМНОРСТУХЅ', 'ABEIJKMHOPCTYXS'],
+  // Greek
+  ['αεικνορτυχ', 'aeikvoptux'],
+  ['ΑΒΕΖΗΙΚΜΝΟΡΤΥΧ', 'ABEZHIKMNOPTYX'],
+  // Hyphens, dashes and the minus sign, used as digit separators
+  ['\u2010\u2011\u2012\u2013\u2014\u2212', '------'],
+]
+
+const HOMOGLYPHS = new Map(
+  HOMOGLYPH_PAIRS.flatMap(([sources, targets]) =>
+    [...sources].map((source, i) => [source, targets[i]] as const)
+  )
+)
+
+// Five to 64 single digits, each standing alone, optionally with lone separators;
+// longer runs are collapsed 64 digits at a time
+const SPACED_DIGITS = /(?<!\w)\d(?:[ \t]{1,4}(?:[-.][ \t]{1,4})?\d(?!\w)){4,63}/g
+const SPACED_DIGITS_MAX_LENGTH = 1 + 63 * 10
+const SPACES = /[ \t]+/g
+
+// Emails with spelled-out or bracketed separators, up to two spelled dots in the
+// local part and eight dots in the domain. Real dots in the local part belong to
+// its character class, so a local part splits into segments one way only.
+const AT = String.raw`(?:\s{1,4}at\s{1,4}|\s{0,4}[([{<]\s{0,4}at\s{0,4}[)\]}>]\s{0,4}|@)`
+const SPELLED_DOT = String.raw`(?:\s{1,4}dot\s{1,4}|\s{0,4}[([{<]\s{0,4}dot\s{0,4}[)\]}>]\s{0,4})`
+const DOT = String.raw`(?:${SPELLED_DOT}|\.)`
+const SPELLED_EMAIL = new RegExp(
+  String.raw`(?<![\w.%+-])[\w.%+-]{1,64}(?:${SPELLED_DOT}[\w.%+-]{1,64}){0,2}${AT}[a-z0-9-]{1,63}(?:${DOT}[a-z0-9-]{1,63}){1,8}`,
+  'gi'
+)
+// Three local part segments and nine labels, joined by eleven separators of at most 21 characters
+const SPELLED_EMAIL_MAX_LENGTH = 3 * 64 + 11 * 21 + 9 * 63
+const EMAIL_SEPARATOR = /\s+at\s+|\s*[([{<]\s*(?:at|dot)\s*[)\]}>]\s*|\s+dot\s+/gi
+const BRACKETED = /[([{<]/
+const PLAIN_AT = /^\s+at\s+$/i
+// Words that put " at " in prose ("I was at home dot com"); never the first or last
+// word of a spoken address's local part
+const PROSE_BEFORE_AT = new Set(
+  (
+    'i me we us you he him she her it they them who this that one all ' +
+    'am is are was were be been being stay stays stayed staying live lives lived living ' +
+    'work works worked working meet met arrive arrives arrived look looks looked looking ' +
+    'stop stopped wait waited waiting sit sat stand stood eat ate sleep slept play played ' +
+    'home here there back out up down in on off now then still just even only also not ' +
+    'least last first best once twice time times good great bad well'
+  ).split(' ')
+)
+
+/**
+ * Reject a spelled-out email candidate that reads as prose. Bracketed
+ * separators and a real @ only occur in addresses. A plain " at " with only
+ * real dots reads as prose ("visit us at example.com"), and so does a spoken
+ * " at " and " dot " after or before an ordinary word ("I was at home dot com").
+ *
+ * @param matched - Candidate found by SPELLED_EMAIL
+ * @returns Offset just after its first plain " at ", where an address may still
+ * start ("reach me at john dot smith at ..."), or undefined for an address
+ */
+function proseRestart(matched: string): number | undefined {
+  const separators = [...matched.matchAll(EMAIL_SEPARATOR)]
+  const at = separators.find(([separator]) => PLAIN_AT.test(separator))
+  if (!at || separators.some(([separator]) => BRACKETED.test(separator))) return undefined
+
+  const words = matched.slice(0, at.index).toLowerCase().split(/\s+/)
+  const prose =
+    separators.every(([separator]) => PLAIN_AT.test(separator)) ||
+    PROSE_BEFORE_AT.has(words[0]) ||
+    PROSE_BEFORE_AT.has(words[words.length - 1])
+  return prose ? at.index + at[0].length : undefined
+}
+
+const NON_ASCII = /[^\0-\x7F]/g
+
+/**
+ * Map characters one by one: drop invisibles, apply homoglyphs, then NFKC.
+ *
+ * @param text - Original text, starting at original offset `offset`
+ */
+function mapCharacters(text: string, offset: number, into: CanonicalBuffer): void {
+  let position = 0
+  NON_ASCII.lastIndex = 0
+  for (let found = NON_ASCII.exec(text); found; found = NON_ASCII.exec(text)) {
+    // ASCII is already canonical
+    into.appendOriginal(text.slice(position, found.index), offset + position)
+
+    const char = String.fromCodePoint(text.codePointAt(found.index)!)
+    const start = offset + found.index
+    position = found.index + char.length
+    NON_ASCII.lastIndex = position
+    if (INVISIBLE.test(char)) continue
+
+    into.append(HOMOGLYPHS.get(char) ?? char.normalize('NFKC'), start, offset + position)
+  }
+  into.appendOriginal(text.slice(position), offset + position)
+}
+
+/** A rewrite applied within every match of an outer pattern */
+interface RewriteRule {
+  outer: RegExp
+  /** Longest match of `outer` */
+  maxLength: number
+  inner: RegExp
+  replace: (separator: string) => string
+  /** Where to search again inside an outer match that is not to be rewritten (see ScanOptions) */
+  reject?: (matched: string) => number | undefined
+}
+
+/**
+ * Within every match of the rule's outer pattern, replace each match of its
+ * inner pattern. Replacement characters map to the whole original range of
+ * what they replaced. Input is consumed as it settles.
+ */
+class Rewriter {
+  readonly output = new CanonicalBuffer()
+  readonly #input: CanonicalBuffer
+  readonly #rule: RewriteRule
+  readonly #scanner: RegexScanner
+  /** Input offset everything before which has been written to the output */
+  #cursor = 0
+
+  constructor(input: CanonicalBuffer, rule: RewriteRule) {
+    this.#input = input
+    this.#rule = rule
+    this.#scanner = new RegexScanner(rule.outer, { maxLength: rule.maxLength, reject: rule.reject })
+  }
+
+  /** Earliest input offset still needed */
+  get retainFrom(): number {
+    return Math.min(this.#cursor, this.#scanner.retainFrom)
+  }
+
+  /**
+   * Original offset where output still to come starts, given where the
+   * input still to come starts.
+   */
+  pendingOriginal(inputPending: number): number {
+    return this.#cursor < this.#input.end ? this.#input.originalStart(this.#cursor) : inputPending
+  }
+
+  /** Rewrite whatever input has settled. */
+  push(final: boolean): void {
+    const input = this.#input
+    const { inner, replace } = this.#rule
+
+    for (const match of this.#scanner.scan(input.text, input.offset, final)) {
+      const matched = input.text.slice(match.start - input.offset, match.end - input.offset)
+      const separators = [...matched.matchAll(inner)]
+      if (separators.length === 0) continue
+
+      this.output.copy(input, this.#cursor, match.start)
+      let position = match.start
+      for (const separator of separators) {
+        const start = match.start + separator.index
+        const end = start + separator[0].length
+        this.output.copy(input, position, start)
+        this.output.append(
+          replace(separator[0]),
+          input.originalStart(start),
+          input.originalEnd(end - 1)
+        )
+        position = end
+      }
+      this.output.copy(input, position, match.end)
+      this.#cursor = match.end
+    }
+
+    // No match can start before the frontier any more
+    this.output.copy(input, this.#cursor, this.#scanner.frontier)
+    this.#cursor = Math.max(this.#cursor, this.#scanner.frontier)
+  }
+}
+
+/**
+ * Builds the canonical view detectors run on, from text that may arrive in
+ * pieces. Fed the same text in any pieces, it produces the same view; each
+ * canonical character appears once no later text can change it.
+ */
+export class Normalizer {
+  readonly #mapped = new CanonicalBuffer()
+  readonly #digits = new Rewriter(this.#mapped, {
+    outer: SPACED_DIGITS,
+    maxLength: SPACED_DIGITS_MAX_LENGTH,
+    inner: SPACES,
+    replace: () => '',
+  })
+  readonly #emails = new Rewriter(this.#digits.output, {
+    outer: SPELLED_EMAIL,
+    maxLength: SPELLED_EMAIL_MAX_LENGTH,
+    inner: EMAIL_SEPARATOR,
+    replace: (separator) => (/at/i.test(separator) ? '@' : '.'),
+    reject: proseRestart,
+  })
+  /** Original characters mapped so far */
+  #consumed = 0
+  /** High surrogate whose low half has not arrived yet */
+  #held = ''
+
+  /** Canonical text settled so far, with its mapping back to the original */
+  get view(): CanonicalBuffer {
+    return this.#emails.output
+  }
+
+  /** Original offset where canonical characters still to come start */
+  get pendingOriginal(): number {
+    return this.#emails.pendingOriginal(this.#digits.pendingOriginal(this.#consumed))
+  }
+
+  /**
+   * Add original text.
+   *
+   * @param chunk - Next piece of the original (or partially redacted) message
+   * @param final - No more text will arrive
+   */
+  push(chunk: string, final: boolean): void {
+    let text = this.#held + chunk
+    const last = text.charCodeAt(text.length - 1)
+    this.#held = !final && last >= 0xd800 && last <= 0xdbff ? text.slice(-1) : ''
+    if (this.#held) text = text.slice(0, -1)
+
+    mapCharacters(text, this.#consumed, this.#mapped)
+    this.#consumed += text.length
+    this.#digits.push(final)
+    this.#emails.push(final)
+    this.#mapped.release(this.#digits.retainFrom)
+    this.#digits.output.release(this.#emails.retainFrom)
+  }
+}
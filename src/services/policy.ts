@@ -0,0 +1,219 @@
+/**
+ * Tenant Policies
+ *
+ * Per-tenant redaction policies keyed by API client: the `tenant` claim of its
+ * bearer token, which an X-Tenant-Id header may restate but never change.
+ * For each PII type a policy redacts, masks, allows or blocks. Tenants without
+ * a policy get the gateway defaults: types with a PII_MASKING strategy are
+ * masked, everything else is redacted.
+ */
+
+import * as fs from 'fs/promises'
+
+import { AppError, type AsyncResult, Errors, Result, type ResultType } from '../lib'
+import type { LocalePack, PIIType, SanitizeResult } from '../models/contracts'
+import { piiTypeSchema } from '../models/inquiry'
+import {
+  type PolicyAction,
+  type PolicyViolation,
+  type TenantPolicy,
+  tenantPolicyFileSchema,
+} from '../models/policy'
+import type { MaskingConfig } from './masking'
+
+/** Effective settings for one inquiry, derived from a tenant policy */
+export interface ResolvedPolicy {
+  tenantId: string | null
+  /** Strategy per redacted or masked type */
+  masking: MaskingConfig
+  /** Types detected but left in place */
+  allowTypes: PIIType[]
+  /** Types that reject the inquiry */
+  blockTypes: PIIType[]
+  /** Locale packs to detect */
+  locales: LocalePack[]
+  /** Types that withhold the AI answer when it contains them */
+  withholdTypes: PIIType[]
+  /** AI providers the tenant prefers, most preferred first; empty for no preference */
+  providers: string[]
+}
+
+export class TenantPolicyStore {
+  readonly #policies = new Map<string, TenantPolicy>()
+
+  /** Replace every policy with the given set. */
+  replace(policies: TenantPolicy[]): void {
+    this.#policies.clear()
+    for (const policy of policies) {
+      this.#policies.set(policy.tenantId, policy)
+    }
+  }
+
+  get(tenantId: string): TenantPolicy | undefined {
+    return this.#policies.get(tenantId)
+  }
+
+  /** Policies in load order. */
+  list(): TenantPolicy[] {
+    return [...this.#policies.values()]
+  }
+}
+
+/** Policies enforced by the gateway's inquiry endpoint. */
+export const tenantPolicies = new TenantPolicyStore()
+
+/**
+ * Load tenant policies from a JSON file holding an array of policies.
+ * The file is validated as a whole and replaces any previously loaded set.
+ *
+ * @param filePath - Path to the JSON config file
+ * @param hmacKey - Gateway HMAC key; keyed masking strategies are rejected without one
+ * @param store - Target store (defaults to the gateway-wide one)
+ * @returns Number of policies loaded
+ */
+export async function loadTenantPolicies(
+  filePath: string,
+  hmacKey?: string,
+  store: TenantPolicyStore = tenantPolicies
+): AsyncResult<number> {
+  let raw: unknown
+  try {
+    raw = JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'unreadable file'
+    return Result.err(Errors.badRequest(`Cannot read tenant policies from ${filePath}: ${message}`))
+  }
+
+  const parsed = tenantPolicyFileSchema.safeParse(raw)
+  if (!parsed.success) return Result.err(Errors.validation(parsed.error.message))
+
+  const keyed = parsed.data.find((policy) =>
+    Object.values(policy.masking ?? {}).some(
+      (strategy) => strategy === 'hash' || strategy === 'format-preserving'
+    )
+  )
+  if (keyed && !hmacKey) {
+    return Result.err(
+      Errors.validation(`Policy for tenant '${keyed.tenantId}' uses keyed masking without a key`)
+    )
+  }
+
+  store.replace(parsed.data)
+  return Result.ok(parsed.data.length)
+}
+
+/**
+ * The tenant whose policy applies to a request. Only an authenticated client
+ * has one: its token's tenant. A header naming another tenant, or sent
+ * without a token, is ignored so the gateway defaults apply.
+ *
+ * @param requested - X-Tenant-Id header, if sent
+ * @param authenticated - Tenant of the verified bearer token, if any
+ * @returns Tenant to resolve the policy for, or undefined for the defaults
+ */
+export function authorizedTenant(
+  requested: string | undefined,
+  authenticated: string | undefined
+): string | undefined {
+  if (!authenticated) return undefined
+  return requested === undefined || requested === authenticated ? authenticated : undefined
+}
+
+/**
+ * Work out what to do with each PII type for a tenant.
+ *
+ * @param tenantId - Tenant from the request; unknown or missing tenants get the defaults
+ * @param defaults - Gateway masking config (PII_MASKING and PII_HMAC_KEY)
+ * @param defaultLocales - Gateway locale packs (PII_LOCALES)
+ * @param defaultWithhold - Gateway egress withhold types (PII_EGRESS_WITHHOLD)
+ * @param store - Policy source (defaults to the gateway-wide one)
+ */
+export function resolvePolicy(
+  tenantId: string | undefined,
+  defaults: MaskingConfig,
+  defaultLocales: LocalePack[] = [],
+  defaultWithhold: PIIType[] = [],
+  store: TenantPolicyStore = tenantPolicies
+): ResolvedPolicy {
+  const policy = tenantId ? store.get(tenantId) : undefined
+  const resolved: ResolvedPolicy = {
+    tenantId: policy?.tenantId ?? null,
+    masking: { strategies: {}, hmacKey: defaults.hmacKey },
+    allowTypes: [],
+    blockTypes: [],
+    locales: policy?.locales ?? defaultLocales,
+    withholdTypes: policy?.withhold ?? defaultWithhold,
+    providers: policy?.providers ?? [],
+  }
+
+  for (const type of piiTypeSchema.options) {
+    const fallback: PolicyAction = defaults.strategies[type] ? 'mask' : 'redact'
+    const action = policy?.rules[type] ?? policy?.defaultAction ?? fallback
+
+    switch (action) {
+      case 'allow':
+        resolved.allowTypes.push(type)
+        break
+      case 'mask':
+        resolved.masking.strategies[type] =
+          policy?.masking?.[type] ?? defaults.strategies[type] ?? 'partial'
+        break
+      case 'block':
+        // Blocked values are still fully redacted in the audit trail
+        resolved.blockTypes.push(type)
+        resolved.masking.strategies[type] = 'redact'
+        break
+      case 'redact':
+        resolved.masking.strategies[type] = 'redact'
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Find the first block rule a sanitized message violates.
+ *
+ * @param policy - Resolved tenant policy
+ * @param result - Sanitizer output for the message
+ * @returns The violated rule, or null when the message may proceed
+ */
+export function findViolation(
+  policy: ResolvedPolicy,
+  result: Pick<SanitizeResult, 'redactedItems'>
+): PolicyViolation | null {
+  const blocked = result.redactedItems.find((item) => policy.blockTypes.includes(item.type))
+  if (!blocked) return null
+
+  return {
+    tenantId: policy.tenantId,
+    rule: { type: blocked.type, ...(blocked.label && { label: blocked.label }), action: 'block' },
+    count: blocked.count,
+  }
+}
+
+/**
+ * Reject a sanitized message that contains a blocked type.
+ *
+ * @param policy - Resolved tenant policy
+ * @param result - Sanitizer output for the message
+ * @returns Err(422 POLICY_VIOLATION) naming the first violated rule
+ */
+export function enforcePolicy(
+  policy: ResolvedPolicy,
+  result: Pick<SanitizeResult, 'redactedItems'>
+): ResultType<void> {
+  const violation = findViolation(policy, result)
+  if (!violation) return Result.ok(undefined)
+
+  const name = violation.rule.label ?? violation.rule.type
+  return Result.err(
+    new AppError({
+      status: 422,
+      code: 'POLICY_VIOLATION',
+      message: `Inquiry blocked by policy: ${name} is not allowed`,
+      details: { ...violation },
+      publicDetails: Object.keys(violation),
+    })
+  )
+}
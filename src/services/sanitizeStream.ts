@@ -0,0 +1,43 @@
+/**
+ * Sanitize Stream
+ *
+ * Node Transform around StreamingSanitizer, for piping chunked text such
+ * as a streamed chat completion through the same detectors as sanitize().
+ * Byte chunks are decoded as UTF-8, so a character split across chunks is
+ * put back together first; the readable side emits redacted strings as
+ * soon as they settle.
+ */
+
+import { Transform, type TransformCallback } from 'stream'
+import { StringDecoder } from 'string_decoder'
+
+import { type SanitizeOptions, StreamingSanitizer } from './sanitizer'
+
+export class SanitizeStream extends Transform {
+  /** Running summary: redactedItems and spans of what has been emitted */
+  readonly sanitizer: StreamingSanitizer
+  readonly #decoder = new StringDecoder('utf8')
+
+  /**
+   * @param options - Same settings as `sanitize()`
+   */
+  constructor(options: SanitizeOptions = {}) {
+    super({ decodeStrings: false, encoding: 'utf8' })
+    this.sanitizer = new StreamingSanitizer(options)
+  }
+
+  _transform(chunk: Buffer | string, _encoding: BufferEncoding, callback: TransformCallback): void {
+    const text = typeof chunk === 'string' ? chunk : this.#decoder.write(chunk)
+    this.#emit(this.sanitizer.write(text))
+    callback()
+  }
+
+  _flush(callback: TransformCallback): void {
+    this.#emit(this.sanitizer.end(this.#decoder.end()))
+    callback()
+  }
+
+  #emit(text: string): void {
+    if (text) this.push(text)
+  }
+}
@@ -2,59 +2,418 @@
  * PII Sanitizer Service
  *
  * Detects and redacts personally identifiable information (PII)
- * from user messages including emails, credit cards, and SSNs.
+ * from user messages by running every detector held by the detector
+ * registry: the built-ins (see detectors/builtin.ts) plus any custom
+ * rules loaded from config or the admin API. Detectors run on a canonical
+ * view of the message (see normalizer.ts) so obfuscated PII is still found;
+ * matches are mapped back and the original characters are replaced.
+ * Detection is a single pass, so the outcome never depends on the order
+ * detectors were registered in. Every pattern is bounded and scanned in
+ * windows (see utils/regexScan.ts), so the cost grows linearly with the
+ * length of the message, and a message can be sanitized as it arrives
+ * (see StreamingSanitizer) with the same result.
+ * Each match is scored from its detector's confidence and nearby keywords,
+ * then redacted, flagged or ignored according to its type's threshold.
  */
 
-import type { PIIType, RedactedItem, SanitizeResult } from '../models/contracts'
+import type {
+  CardBrand,
+  DetectionSpan,
+  LocalePack,
+  MaskingStrategy,
+  PIIType,
+  RedactedItem,
+  SanitizeResult,
+  SecretSubtype,
+} from '../models/contracts'
+import { settleClusters } from '../utils/ranges'
+import {
+  type ConfidenceThreshold,
+  contextRange,
+  decide,
+  type Detector,
+  type DetectorMatch,
+  type DetectorRegistry,
+  detectorRegistry,
+  type MatchScanner,
+  scoreMatch,
+} from './detectors'
+import { applyMask, type MaskingConfig } from './masking'
+import { Normalizer } from './normalizer'
+import type { TokenVault } from './tokenVault'
 
-// PII detection regex patterns
-const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g
-const CREDIT_CARD_REGEX = /\b(?:\d[ -]*?){13,19}\b/g
-const SSN_REGEX = /\b(?:\d{3}-\d{2}-\d{4}|\d{9})\b/g
+/** Options controlling how detected PII is replaced */
+export interface SanitizeOptions {
+  /**
+   * When provided, each distinct value is replaced by a stable indexed token
+   * (`<EMAIL_1>`) recorded in the vault, overriding the configured masking.
+   */
+  tokenVault?: TokenVault
+  /** Per-type masking strategies; types without one are fully redacted */
+  masking?: MaskingConfig
+  /** Detectors to run; defaults to the gateway-wide registry */
+  registry?: DetectorRegistry
+  /** Types that are detected and reported but left in place (strategy 'none') */
+  allowTypes?: PIIType[]
+  /** Locale packs whose national identifiers are detected; none by default */
+  locales?: LocalePack[]
+  /** Per-type score thresholds for redacting and flagging (see detectors/context.ts) */
+  thresholds?: Partial<Record<PIIType, ConfidenceThreshold>>
+}
 
-interface PIIPattern {
-  type: PIIType
-  regex: RegExp
-  placeholder: string
+/** A scored match from one detector, with offsets into the original message */
+interface Candidate {
+  detector: Detector
+  match: DetectorMatch
+  /** De-obfuscated value that masks and tokens derive from */
+  value: string
+  confidence: number
+  flagged: boolean
 }
 
-const PII_PATTERNS: PIIPattern[] = [
-  { type: 'EMAIL', regex: EMAIL_REGEX, placeholder: '<REDACTED: EMAIL>' },
-  { type: 'CREDIT_CARD', regex: CREDIT_CARD_REGEX, placeholder: '<REDACTED: CREDIT_CARD>' },
-  { type: 'SSN', regex: SSN_REGEX, placeholder: '<REDACTED: SSN>' },
-]
+/** A match from one detector, with offsets into the original message */
+type Found = Pick<Candidate, 'detector' | 'match' | 'value'>
+
+/** Replace the characters of each range with spaces, keeping every offset. */
+function blankRanges(text: string, ranges: { start: number; end: number }[]): string {
+  const chars = text.split('')
+  for (const { start, end } of ranges) chars.fill(' ', Math.max(0, start), Math.max(0, end))
+  return chars.join('')
+}
+
+/** Smallest of many numbers, without spreading them into arguments */
+function minimum(values: number[]): number {
+  return values.reduce((min, value) => Math.min(min, value), Infinity)
+}
+
+/** Order detectors for overlap resolution and redactedItems: highest priority first */
+function compareDetectors(a: Detector, b: Detector): number {
+  return b.priority - a.priority || a.id.localeCompare(b.id)
+}
 
 /**
- * Sanitize a message by redacting PII.
+ * Order candidates by how strongly they claim their characters: priority, then
+ * score, then length. Position and detector id break the remaining ties so the
+ * result never depends on detector registration order.
+ */
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return (
+    b.detector.priority - a.detector.priority ||
+    b.confidence - a.confidence ||
+    b.match.end - b.match.start - (a.match.end - a.match.start) ||
+    a.match.start - b.match.start ||
+    a.detector.id.localeCompare(b.detector.id)
+  )
+}
+
+/**
+ * Keep the strongest candidate wherever candidates overlap.
  *
- * @param message - The message to sanitize
- * @returns SanitizeResult with redacted message and summary of redacted items
+ * @param cluster - Transitively overlapping candidates, sorted by start
+ * @returns Surviving candidates in message order
  */
-export function sanitize(message: string): SanitizeResult {
-  let redactedMessage = message
-  const redactedCounts: Map<PIIType, number> = new Map()
-
-  for (const pattern of PII_PATTERNS) {
-    // Reset regex lastIndex for global patterns
-    pattern.regex.lastIndex = 0
-
-    const matches = redactedMessage.match(pattern.regex)
-    if (matches && matches.length > 0) {
-      redactedCounts.set(pattern.type, matches.length)
-      redactedMessage = redactedMessage.replace(pattern.regex, pattern.placeholder)
+function resolveOverlaps(cluster: Candidate[]): Candidate[] {
+  const origin = cluster[0].match.start
+  const end = cluster.reduce((max, { match }) => Math.max(max, match.end), origin)
+  // Matches are short, so marking their characters keeps this linear in the message
+  const claimed = new Uint8Array(end - origin)
+  const kept: Candidate[] = []
+  for (const candidate of [...cluster].sort(compareCandidates)) {
+    const start = candidate.match.start - origin
+    const length = candidate.match.end - candidate.match.start
+    if (claimed.subarray(start, start + length).includes(1)) continue
+    claimed.fill(1, start, start + length)
+    kept.push(candidate)
+  }
+  return kept.sort((a, b) => a.match.start - b.match.start)
+}
+
+/**
+ * Sanitizes a message that arrives in pieces, such as a streamed chat
+ * response, emitting redacted text as it goes.
+ *
+ * Every stage works on what has settled: the normalizer and detectors hold
+ * back at most their longest match plus a little context (long secrets
+ * only once their opening has arrived), a match is
+ * scored once the keyword window after it has arrived, and overlapping
+ * matches are resolved once nothing still to come can overlap them. Text
+ * before all of that is redacted and emitted. Fed the same message in any
+ * pieces, the emitted text, spans and summary equal those of `sanitize()`
+ * on the whole message.
+ */
+export class StreamingSanitizer {
+  readonly #options: SanitizeOptions
+  readonly #scanners: { detector: Detector; scanner: MatchScanner }[]
+  readonly #normalizer = new Normalizer()
+  /** Original text from #textOffset on; earlier text has been emitted */
+  #text = ''
+  #textOffset = 0
+  /** Matches waiting for the text after them to arrive before scoring */
+  #unscored: Found[] = []
+  /** Matches whose characters are blanked in a later match's keyword window */
+  #blanks: { start: number; end: number }[] = []
+  /** Scored matches waiting for overlaps to be resolved */
+  #candidates: Candidate[] = []
+  /** Original offset everything before which has been emitted */
+  #cursor = 0
+  /** Length of the redacted text emitted so far */
+  #emitted = 0
+  #ended = false
+  readonly #spans: DetectionSpan[] = []
+  readonly #items = new Map<Detector, RedactedItem>()
+
+  /**
+   * @param options - Same settings as `sanitize()`; tokens share the given vault
+   */
+  constructor(options: SanitizeOptions = {}) {
+    const { registry = detectorRegistry, locales = [] } = options
+    this.#options = options
+    this.#scanners = registry
+      .list()
+      .filter((detector) => !detector.locale || locales.includes(detector.locale))
+      .map((detector) => ({ detector, scanner: detector.createScanner() }))
+  }
+
+  /** Summary of what was replaced so far, as in SanitizeResult */
+  get redactedItems(): RedactedItem[] {
+    return [...this.#items.keys()]
+      .sort(compareDetectors)
+      .map((detector) => this.#items.get(detector)!)
+  }
+
+  /** Every match resolved so far, as in SanitizeResult */
+  get spans(): DetectionSpan[] {
+    return [...this.#spans]
+  }
+
+  /**
+   * Add the next piece of the message.
+   *
+   * @returns Redacted text that has settled; empty while it is all held back
+   */
+  write(chunk: string): string {
+    return this.#process(chunk, false)
+  }
+
+  /**
+   * Add the last piece of the message, if any, and flush everything held back.
+   *
+   * @returns The rest of the redacted text
+   */
+  end(chunk = ''): string {
+    return this.#process(chunk, true)
+  }
+
+  #process(chunk: string, final: boolean): string {
+    if (this.#ended) throw new Error('Cannot write to a sanitizer that has ended')
+    this.#ended = final
+    this.#text += chunk
+
+    const normalizer = this.#normalizer
+    normalizer.push(chunk, final)
+    const view = normalizer.view
+
+    for (const { detector, scanner } of this.#scanners) {
+      for (const detected of scanner.scan(view.text, view.offset, final)) {
+        const match = {
+          ...detected,
+          start: view.originalStart(detected.start),
+          end: view.originalEnd(detected.end - 1),
+        }
+        const value = view.text.slice(detected.start - view.offset, detected.end - view.offset)
+        this.#unscored.push({ detector, match, value })
+        this.#blanks.push(match)
+      }
+    }
+    // Matches still to come start at or after this original offset
+    const found = final
+      ? Infinity
+      : minimum(
+          this.#scanners.map(({ scanner }) =>
+            scanner.frontier < view.end
+              ? view.originalStart(scanner.frontier)
+              : normalizer.pendingOriginal
+          )
+        )
+
+    this.#score(found)
+    // Candidates still to come start at or after this offset
+    const scored = Math.min(found, minimum(this.#unscored.map(({ match }) => match.start)))
+    const clusters = settleClusters(this.#candidates, (candidate) => candidate.match, scored)
+    this.#candidates = clusters.pending
+
+    let output = ''
+    for (const cluster of clusters.settled) {
+      for (const candidate of resolveOverlaps(cluster)) output += this.#replace(candidate)
     }
+    const settled = Math.min(
+      scored,
+      clusters.pending[0]?.match.start ?? Infinity,
+      this.#textOffset + this.#text.length
+    )
+    output += this.#copy(settled)
+
+    this.#release(contextRange(scored, scored).start)
+    normalizer.view.release(minimum(this.#scanners.map(({ scanner }) => scanner.retainFrom)))
+    return output
+  }
+
+  /** Score every match whose keyword window lies before `found`. */
+  #score(found: number): void {
+    const ready: Found[] = []
+    const waiting: Found[] = []
+    for (const item of this.#unscored) {
+      if (contextRange(item.match.start, item.match.end).end <= found) ready.push(item)
+      else waiting.push(item)
+    }
+    this.#unscored = waiting
+    if (ready.length === 0) return
+
+    const { thresholds = {} } = this.#options
+    // Only the keyword windows of the ready matches are read
+    const windows = ready.map(({ match }) => contextRange(match.start, match.end))
+    const from = minimum(windows.map(({ start }) => start))
+    const to = windows.reduce((max, { end }) => Math.max(max, end), from)
+    // Keywords inside other detected values (the "po" in x@po.com) never count as context
+    const contextText = blankRanges(
+      this.#slice(from, to),
+      this.#blanks
+        .filter(({ start, end }) => start < to && from < end)
+        .map(({ start, end }) => ({ start: start - from, end: end - from }))
+    )
+
+    for (const { detector, match, value } of ready) {
+      const confidence = scoreMatch(detector, contextText, match.start - from, match.end - from)
+      const decision = decide(confidence, thresholds[detector.type])
+      if (decision === 'ignore') continue
+
+      this.#candidates.push({ detector, match, value, confidence, flagged: decision === 'flag' })
+    }
+  }
+
+  /** Emit the original text up to a kept candidate, then its replacement. */
+  #replace({ detector, match, value, confidence, flagged }: Candidate): string {
+    const { tokenVault, masking, allowTypes = [] } = this.#options
+    const allowed = allowTypes.includes(detector.type)
+    const configured = masking?.strategies[detector.type] ?? 'redact'
+    const strategy: MaskingStrategy = allowed ? 'none' : tokenVault ? 'tokenize' : configured
+
+    const original = this.#slice(match.start, match.end)
+    const replacement =
+      allowed || flagged
+        ? original
+        : tokenVault
+          ? tokenVault.tokenize(detector.type, value, detector.label)
+          : applyMask(detector.type, value, configured, masking?.hmacKey, detector.label)
+
+    const before = this.#copy(match.start)
+    this.#spans.push({
+      type: detector.type,
+      ...(detector.source === 'custom' && { label: detector.label }),
+      detector: detector.id,
+      confidence,
+      start: match.start,
+      end: match.end,
+      redactedStart: this.#emitted,
+      redactedEnd: this.#emitted + replacement.length,
+      strategy: flagged ? 'none' : strategy,
+      ...(match.brand && { brand: match.brand }),
+      ...(match.subtype && { subtype: match.subtype }),
+      ...(flagged && { flagged }),
+    })
+    this.#emitted += replacement.length
+    this.#cursor = match.end
+
+    // Flagged matches appear in spans only; redactedItems covers what was replaced
+    if (!flagged) {
+      let item = this.#items.get(detector)
+      if (!item) {
+        item = { type: detector.type, count: 0, strategy }
+        if (detector.source === 'custom') item.label = detector.label
+        this.#items.set(detector, item)
+      }
+      item.count++
+      if (match.brand) (item.brands ??= []).push(match.brand)
+      if (match.subtype) (item.subtypes ??= []).push(match.subtype)
+    }
+
+    return before + replacement
+  }
+
+  /** Emit the original text from the cursor up to `end`. */
+  #copy(end: number): string {
+    if (end <= this.#cursor) return ''
+    const text = this.#slice(this.#cursor, end)
+    this.#emitted += text.length
+    this.#cursor = end
+    return text
   }
 
-  const redactedItems: RedactedItem[] = []
-  for (const [type, count] of redactedCounts) {
-    redactedItems.push({ type, count })
+  #slice(start: number, end: number): string {
+    return this.#text.slice(start - this.#textOffset, end - this.#textOffset)
   }
 
+  /** Drop text and blanked ranges before `offset` that are no longer needed. */
+  #release(offset: number): void {
+    const keep = Math.min(this.#cursor, offset)
+    this.#blanks = this.#blanks.filter(({ end }) => end > keep)
+    const count = keep - this.#textOffset
+    // Dropping only once half the text is dead keeps the copying linear overall
+    if (2 * count < this.#text.length) return
+    this.#text = this.#text.slice(count)
+    this.#textOffset = keep
+  }
+}
+
+/**
+ * Sanitize a message by redacting PII.
+ *
+ * Every enabled detector scans the same canonical view of the original
+ * message; overlapping matches are resolved by priority, score and length,
+ * and all replacements are applied in a single rebuild.
+ *
+ * @param message - The message to sanitize
+ * @param options - Optional replacement settings (tokenization, masking strategies)
+ * @returns SanitizeResult with redacted message, summary of redacted items and span metadata
+ */
+export function sanitize(message: string, options: SanitizeOptions = {}): SanitizeResult {
+  const sanitizer = new StreamingSanitizer(options)
+  const redactedMessage = sanitizer.end(message)
+
   return {
     redactedMessage,
-    redactedItems,
+    redactedItems: sanitizer.redactedItems,
+    spans: sanitizer.spans,
+  }
+}
+
+/**
+ * Add items to a running summary, merging entries for the same type,
+ * label and strategy.
+ */
+export function mergeRedactedItems(into: RedactedItem[], items: RedactedItem[]): void {
+  for (const item of items) {
+    const existing = into.find(
+      (other) =>
+        other.type === item.type && other.label === item.label && other.strategy === item.strategy
+    )
+    if (!existing) {
+      into.push({ ...item })
+      continue
+    }
+    existing.count += item.count
+    if (item.brands) existing.brands = [...(existing.brands ?? []), ...item.brands]
+    if (item.subtypes) existing.subtypes = [...(existing.subtypes ?? []), ...item.subtypes]
   }
 }
 
 // Re-export types for convenience
-export type { PIIType, RedactedItem, SanitizeResult }
+export type {
+  CardBrand,
+  DetectionSpan,
+  MaskingStrategy,
+  PIIType,
+  RedactedItem,
+  SanitizeResult,
+  SecretSubtype,
+}
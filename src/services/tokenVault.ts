@@ -0,0 +1,64 @@
+/**
+ * Token Vault
+ *
+ * Per-request, in-memory mapping between stable indexed tokens
+ * (`<EMAIL_1>`, `<EMAIL_2>`) and the original PII values they replace.
+ * A vault is created for a single inquiry and discarded with it: it is
+ * never persisted, sent to the AI provider, or serialized into logs.
+ */
+
+import type { PIIType } from '../models/contracts'
+import { canonicalize } from './masking'
+
+// Matches any token this vault can issue, e.g. <EMAIL_1> or <CREDIT_CARD_12>
+const TOKEN_REGEX = /<([A-Z][A-Z0-9_]*)_(\d+)>/g
+
+export class TokenVault {
+  // ES private fields are invisible to JSON.stringify and structured loggers
+  readonly #tokensByValue = new Map<string, string>()
+  readonly #valuesByToken = new Map<string, string>()
+  readonly #counters = new Map<string, number>()
+
+  /**
+   * Return the token for a value, issuing the next index for its type on first sight.
+   *
+   * @param type - PII type of the matched value
+   * @param value - Original matched text
+   * @param label - Token prefix; custom detectors use their own label
+   * @returns Token such as `<EMAIL_1>`
+   */
+  tokenize(type: PIIType, value: string, label: string = type): string {
+    const key = `${label}:${canonicalize(label, value)}`
+    const existing = this.#tokensByValue.get(key)
+    if (existing) return existing
+
+    const index = (this.#counters.get(label) ?? 0) + 1
+    this.#counters.set(label, index)
+
+    const token = `<${label}_${index}>`
+    this.#tokensByValue.set(key, token)
+    this.#valuesByToken.set(token, value)
+    return token
+  }
+
+  /**
+   * Replace every token issued by this vault with its original value.
+   * Tokens the vault did not issue are left untouched.
+   *
+   * @param text - Text containing tokens (e.g. an AI answer)
+   * @returns Text with known tokens restored
+   */
+  rehydrate(text: string): string {
+    return text.replace(TOKEN_REGEX, (token) => this.#valuesByToken.get(token) ?? token)
+  }
+
+  /** Number of distinct values held by the vault. */
+  get size(): number {
+    return this.#valuesByToken.size
+  }
+
+  /** Never expose the mapping when the vault is accidentally serialized. */
+  toJSON(): { size: number } {
+    return { size: this.size }
+  }
+}
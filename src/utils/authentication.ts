@@ -1,6 +1,9 @@
+import { createHmac, timingSafeEqual } from 'crypto'
 import type { Request } from 'express'
+import { z } from 'zod'
 
-import { AppError } from '../lib'
+import { env } from '../env'
+import { AppError, Errors } from '../lib'
 import logger from './logger'
 
 /**
@@ -15,14 +18,32 @@ export interface JwtPayload {
   aud?: string
   jti?: string
   roles?: string[]
+  /** Tenant whose redaction policy applies to this client's requests */
+  tenant?: string
 }
 
+const jwtHeaderSchema = z.object({ alg: z.literal('HS256') })
+
+const jwtPayloadSchema = z.object({
+  sub: z.string().min(1),
+  iat: z.number(),
+  exp: z.number(),
+  nbf: z.number().optional(),
+  iss: z.string().optional(),
+  aud: z.string().optional(),
+  jti: z.string().optional(),
+  roles: z.array(z.string()).optional(),
+  tenant: z.string().min(1).optional(),
+})
+
 /**
  * User ID extracted from JWT.
  */
 export interface UserID {
   id: string
   token_exp: string
+  roles: string[]
+  tenantId?: string
 }
 
 /**
@@ -32,32 +53,116 @@ export interface AuthRequest extends Request {
   user: UserID
 }
 
+const invalidToken = () =>
+  new AppError({ status: 401, code: 'INVALID_TOKEN', message: 'Invalid or expired token' })
+
+/** Token from an `Authorization: Bearer <token>` header */
+function bearerToken(request: Request): string | undefined {
+  const [scheme, token] = request.headers.authorization?.split(' ') ?? []
+  return scheme?.toLowerCase() === 'bearer' && token ? token : undefined
+}
+
+/**
+ * Verify an HS256-signed JWT.
+ *
+ * @param token - Compact JWT
+ * @param secret - Shared signing secret (JWT_SECRET)
+ * @param now - Current time in epoch ms
+ * @returns The payload
+ * @throws AppError 401 INVALID_TOKEN for a malformed, unsigned, wrongly signed or expired token
+ */
+export function verifyJwt(token: string, secret: string, now = Date.now()): JwtPayload {
+  const parts = token.split('.')
+  if (parts.length !== 3) throw invalidToken()
+  const [header, payload, signature] = parts
+
+  const expected = createHmac('sha256', secret).update(`${header}.${payload}`).digest()
+  const actual = Buffer.from(signature, 'base64url')
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw invalidToken()
+  }
+
+  const decode = (part: string): unknown => {
+    try {
+      return JSON.parse(Buffer.from(part, 'base64url').toString('utf8'))
+    } catch {
+      return undefined
+    }
+  }
+  const parsedHeader = jwtHeaderSchema.safeParse(decode(header))
+  const parsed = jwtPayloadSchema.safeParse(decode(payload))
+  if (!parsedHeader.success || !parsed.success) throw invalidToken()
+
+  const { nbf, ...claims } = parsed.data
+  if (claims.exp * 1000 <= now || (nbf !== undefined && nbf * 1000 > now)) throw invalidToken()
+  return claims
+}
+
+/**
+ * Check that a client holds every role a route requires.
+ *
+ * @param user - Authenticated client
+ * @param scopes - Roles from the route's @Security decorator
+ * @throws AppError 403 FORBIDDEN naming the missing roles
+ */
+export function requireScopes(user: UserID, scopes: string[] = []): void {
+  const missing = scopes.filter((scope) => !user.roles.includes(scope))
+  if (missing.length > 0) {
+    throw Errors.forbidden(`Requires the ${missing.join(', ')} role`)
+  }
+}
+
+/**
+ * Identify a client from its bearer token.
+ *
+ * @param token - Compact JWT
+ * @param secret - Shared signing secret (JWT_SECRET)
+ * @throws AppError 401 INVALID_TOKEN when the token does not verify
+ */
+export function toUser(token: string, secret: string): UserID {
+  const payload = verifyJwt(token, secret)
+  return {
+    id: payload.sub,
+    token_exp: new Date(payload.exp * 1000).toISOString(),
+    roles: payload.roles ?? [],
+    ...(payload.tenant && { tenantId: payload.tenant }),
+  }
+}
+
+/**
+ * Identify the client on a route without @Security, where a token is optional.
+ *
+ * @returns The client, or undefined without a token (or without JWT_SECRET to check one)
+ * @throws AppError 401 INVALID_TOKEN when a token is sent but does not verify
+ */
+export function identifyClient(request: Request): UserID | undefined {
+  const token = bearerToken(request)
+  if (!token || !env.JWT_SECRET) return undefined
+  return toUser(token, env.JWT_SECRET)
+}
+
 /**
  * TSOA Authentication handler.
  * Called by TSOA when a route has @Security decorator.
  *
- * Implement your JWT verification logic here.
- * Example uses Bearer token from Authorization header.
+ * Verifies the HS256 bearer token against JWT_SECRET and checks its `roles`
+ * claim holds every scope the route lists.
+ * Answers 401 for a missing or invalid token and 403 for a missing role.
  */
 export const expressAuthentication = async (
   request: Request,
   securityName: string,
-  _scopes?: string[]
+  scopes?: string[]
 ): Promise<UserID> => {
-  let token: string | undefined
-
-  switch (securityName) {
-    case 'bearer':
-      token = request.headers.authorization?.split(' ')[1]
-      break
-    default:
-      throw new AppError({
-        status: 401,
-        code: 'UNSUPPORTED_AUTH_SCHEME',
-        message: `Unsupported security scheme: ${securityName}`,
-      })
+  if (securityName !== 'bearer') {
+    throw new AppError({
+      status: 401,
+      code: 'UNSUPPORTED_AUTH_SCHEME',
+      message: `Unsupported security scheme: ${securityName}`,
+    })
   }
 
+  const token = bearerToken(request)
   if (!token) {
     throw new AppError({
       status: 401,
@@ -66,21 +171,16 @@ export const expressAuthentication = async (
     })
   }
 
-  // TODO: Implement your JWT verification logic here
-  // Example with jsonwebtoken:
-  // import jwt from 'jsonwebtoken'
-  // try {
-  //   const decoded = jwt.verify(token, env.JWT_SECRET) as JwtPayload
-  //   return { id: decoded.sub, token_exp: new Date(decoded.exp * 1000).toISOString() }
-  // } catch (err) {
-  //   throw new AppError({ status: 401, code: 'INVALID_TOKEN', message: 'Invalid or expired token' })
-  // }
-
-  // For now, throw an error - implement your own verification
-  logger.warn('JWT verification not implemented - implement in src/utils/authentication.ts')
-  throw new AppError({
-    status: 501,
-    code: 'NOT_IMPLEMENTED',
-    message: 'JWT verification not implemented',
-  })
+  if (!env.JWT_SECRET) {
+    logger.warn('JWT_SECRET is not set - authenticated routes are disabled')
+    throw new AppError({
+      status: 501,
+      code: 'NOT_IMPLEMENTED',
+      message: 'JWT verification is not configured',
+    })
+  }
+
+  const user = toUser(token, env.JWT_SECRET)
+  requireScopes(user, scopes)
+  return user
 }
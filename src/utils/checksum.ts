@@ -0,0 +1,154 @@
+/**
+ * Checksum Utilities
+ *
+ * Check-digit algorithms used to validate PII candidates before redaction.
+ */
+
+/**
+ * Validate a digit string with the Luhn (mod 10) algorithm.
+ *
+ * @param digits - String containing only ASCII digits
+ * @returns true when the check digit is valid
+ */
+export function luhnCheck(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false
+
+  let sum = 0
+  let double = false
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let digit = digits.charCodeAt(i) - 48
+    if (double) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+    double = !double
+  }
+
+  return sum % 10 === 0
+}
+
+/**
+ * Validate an IBAN with the ISO 13616 mod-97 check.
+ *
+ * @param iban - IBAN with separators removed
+ * @returns true when the rearranged number is congruent to 1 mod 97
+ */
+export function ibanCheck(iban: string): boolean {
+  const normalized = iban.toUpperCase()
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(normalized)) return false
+
+  // Move country code and check digits to the end, then map A-Z to 10-35
+  const rearranged = normalized.slice(4) + normalized.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const value = parseInt(char, 36)
+    remainder = (value > 9 ? remainder * 100 + value : remainder * 10 + value) % 97
+  }
+
+  return remainder === 1
+}
+
+/**
+ * Validate a US ABA routing transit number.
+ * Weights 3-7-1 repeated must sum to a multiple of 10, and the first two
+ * digits must fall in a Federal Reserve routing symbol range.
+ *
+ * @param digits - Nine-digit routing number
+ * @returns true when the prefix and checksum are valid
+ */
+export function abaRoutingCheck(digits: string): boolean {
+  if (!/^\d{9}$/.test(digits)) return false
+
+  const prefix = Number(digits.slice(0, 2))
+  const validPrefix =
+    prefix <= 12 ||
+    (prefix >= 21 && prefix <= 32) ||
+    (prefix >= 61 && prefix <= 72) ||
+    prefix === 80
+  if (!validPrefix) return false
+
+  const weights = [3, 7, 1]
+  let sum = 0
+  for (let i = 0; i < 9; i++) {
+    sum += (digits.charCodeAt(i) - 48) * weights[i % 3]
+  }
+
+  return sum % 10 === 0
+}
+
+/**
+ * Validate a Mexican CURP check digit (position 18).
+ * Characters map to their index in 0-9A-NÑO-Z and are weighted 18 down to 2.
+ *
+ * @param curp - 18-character CURP, uppercase
+ * @returns true when the check digit matches
+ */
+export function curpCheck(curp: string): boolean {
+  if (!/^[A-Z0-9Ñ]{17}\d$/.test(curp)) return false
+
+  const alphabet = '0123456789ABCDEFGHIJKLMNÑOPQRSTUVWXYZ'
+  let sum = 0
+  for (let i = 0; i < 17; i++) {
+    sum += alphabet.indexOf(curp[i]) * (18 - i)
+  }
+
+  return (10 - (sum % 10)) % 10 === Number(curp[17])
+}
+
+/**
+ * Validate the check digit that closes a Mexican RFC homoclave.
+ * Company RFCs (12 characters) are padded with a leading space; characters
+ * map to their index in 0-9A-N&O-Z space Ñ and are weighted 13 down to 2.
+ *
+ * @param rfc - 12- or 13-character RFC, uppercase
+ * @returns true when the check digit matches
+ */
+export function rfcCheck(rfc: string): boolean {
+  if (!/^[A-ZÑ&]{3,4}\d{6}[A-Z0-9]{3}$/.test(rfc)) return false
+
+  const alphabet = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ'
+  const padded = rfc.padStart(13, ' ')
+  let sum = 0
+  for (let i = 0; i < 12; i++) {
+    sum += alphabet.indexOf(padded[i]) * (13 - i)
+  }
+
+  const remainder = 11 - (sum % 11)
+  const expected = remainder === 11 ? '0' : remainder === 10 ? 'A' : String(remainder)
+  return padded[12] === expected
+}
+
+/**
+ * Validate a Mexican CLABE interbank account number.
+ * Weights 3-7-1 repeated over the first 17 digits, each product taken mod 10.
+ *
+ * @param digits - 18-digit CLABE
+ * @returns true when the control digit matches
+ */
+export function clabeCheck(digits: string): boolean {
+  if (!/^\d{18}$/.test(digits)) return false
+
+  const weights = [3, 7, 1]
+  let sum = 0
+  for (let i = 0; i < 17; i++) {
+    sum += ((digits.charCodeAt(i) - 48) * weights[i % 3]) % 10
+  }
+
+  return (10 - (sum % 10)) % 10 === digits.charCodeAt(17) - 48
+}
+
+/**
+ * Validate a Spanish DNI or NIE control letter (number mod 23).
+ * NIEs replace their leading X, Y or Z with 0, 1 or 2.
+ *
+ * @param id - DNI (8 digits + letter) or NIE (X/Y/Z + 7 digits + letter), uppercase
+ * @returns true when the control letter matches
+ */
+export function spanishIdCheck(id: string): boolean {
+  const match = /^([XYZ]\d{7}|\d{8})([A-Z])$/.exec(id)
+  if (!match) return false
+
+  const number = Number(match[1].replace(/^[XYZ]/, (prefix) => String('XYZ'.indexOf(prefix))))
+  return 'TRWAGMYFPDXBNJZSQVHLCKE'[number % 23] === match[2]
+}
@@ -0,0 +1,26 @@
+/**
+ * Entropy Utilities
+ *
+ * Randomness measures used to tell generated credentials from ordinary words.
+ */
+
+/**
+ * Shannon entropy of a string, in bits per character.
+ *
+ * @param value - Non-empty string
+ * @returns 0 for a single repeated character, up to log2(distinct characters)
+ */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>()
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1)
+  }
+
+  const length = [...value].length
+  let entropy = 0
+  for (const count of counts.values()) {
+    const p = count / length
+    entropy -= p * Math.log2(p)
+  }
+  return entropy
+}
@@ -0,0 +1,51 @@
+/**
+ * Overlap Clusters
+ *
+ * Overlapping matches are resolved against each other, so when text
+ * arrives in pieces a match can only be resolved once no match still to
+ * come can overlap it or anything it overlaps. Grouping ranges into
+ * clusters of transitively overlapping ones makes that a local check: a
+ * cluster that ends where unseen matches may start is settled.
+ */
+
+export interface Range {
+  start: number
+  end: number
+}
+
+/**
+ * Group items into clusters of transitively overlapping ranges and split off
+ * the leading clusters that end at or before `boundary`.
+ *
+ * @param items - Items in any order
+ * @param range - Range of an item
+ * @param boundary - Offset at or after which unseen ranges start
+ * @returns Settled clusters in order, and the remaining items sorted by start
+ */
+export function settleClusters<T>(
+  items: T[],
+  range: (item: T) => Range,
+  boundary: number
+): { settled: T[][]; pending: T[] } {
+  const sorted = [...items].sort((a, b) => range(a).start - range(b).start)
+  const settled: T[][] = []
+  let cluster: T[] = []
+  let end = -Infinity
+
+  for (const [index, item] of sorted.entries()) {
+    const { start } = range(item)
+    if (start >= end && cluster.length > 0) {
+      if (end > boundary) return { settled, pending: sorted.slice(index - cluster.length) }
+      settled.push(cluster)
+      cluster = []
+    }
+    cluster.push(item)
+    end = Math.max(end, range(item).end)
+  }
+
+  if (cluster.length > 0 && end > boundary) {
+    return { settled, pending: sorted.slice(sorted.length - cluster.length) }
+  }
+  if (cluster.length > 0) settled.push(cluster)
+  return { settled, pending: [] }
+}
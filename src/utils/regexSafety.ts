@@ -0,0 +1,147 @@
+/**
+ * Regex Safety Checks
+ *
+ * Screens user-supplied regular expressions for catastrophic backtracking
+ * (ReDoS) before they are allowed to run against chat traffic.
+ * Combines a static scan for the classic exponential shapes with a bounded
+ * runtime probe against adversarial inputs.
+ */
+
+import vm from 'node:vm'
+
+const MAX_PATTERN_LENGTH = 500
+const PROBE_TIMEOUT_MS = 50
+const PROBE_LENGTH = 5000
+const ALLOWED_FLAGS = /^[imsu]*$/
+
+/** Characters whose long runs commonly trigger backtracking */
+const PROBE_CHARS = ['a', 'A', '0', ' ', '-', '.', '_', '@', 'é']
+
+interface GroupScan {
+  hasQuantifier: boolean
+  hasAlternation: boolean
+}
+
+/**
+ * Check whether the token at `index` is a quantifier that can repeat more than once.
+ */
+function isRepeatingQuantifier(pattern: string, index: number): boolean {
+  const char = pattern[index]
+  if (char === '*' || char === '+') return true
+  if (char !== '{') return false
+
+  const bounds = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(index))
+  if (!bounds) return false
+  if (bounds[2] === undefined) return Number(bounds[1]) > 1
+  return bounds[3] === '' || Number(bounds[3]) > 1
+}
+
+/**
+ * Static scan for nested quantifiers (`(a+)+`), quantified alternations
+ * (`(a|ab)*`) and backreferences.
+ */
+function findUnsafeConstruct(pattern: string): string | null {
+  const stack: GroupScan[] = [{ hasQuantifier: false, hasAlternation: false }]
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+
+    if (char === '\\') {
+      const next = pattern[i + 1]
+      if (!inClass && (/[1-9]/.test(next ?? '') || next === 'k')) {
+        return 'backreferences are not allowed'
+      }
+      i++
+      continue
+    }
+
+    if (inClass) {
+      if (char === ']') inClass = false
+      continue
+    }
+
+    const current = stack[stack.length - 1]
+    switch (char) {
+      case '[':
+        inClass = true
+        break
+      case '(':
+        stack.push({ hasQuantifier: false, hasAlternation: false })
+        break
+      case '|':
+        current.hasAlternation = true
+        break
+      case ')': {
+        const group = stack.pop()
+        if (!group || stack.length === 0) return 'unbalanced parentheses'
+
+        const parent = stack[stack.length - 1]
+        if (isRepeatingQuantifier(pattern, i + 1)) {
+          if (group.hasQuantifier) return 'nested quantifiers can backtrack exponentially'
+          if (group.hasAlternation) return 'quantified alternation can backtrack exponentially'
+          parent.hasQuantifier = true
+        } else if (group.hasQuantifier) {
+          parent.hasQuantifier = true
+        }
+        break
+      }
+      default:
+        if (isRepeatingQuantifier(pattern, i)) current.hasQuantifier = true
+    }
+  }
+
+  return null
+}
+
+/**
+ * Run the regex against long adversarial inputs in an isolated context with
+ * a hard timeout. Returns false when any probe does not finish in time.
+ */
+function passesRuntimeProbe(pattern: string, flags: string): boolean {
+  const probes = PROBE_CHARS.flatMap((char) => [
+    char.repeat(PROBE_LENGTH) + '!',
+    `${char}${char === '0' ? 'a' : '0'}`.repeat(PROBE_LENGTH / 2) + '!',
+  ])
+
+  try {
+    vm.runInNewContext(
+      'const re = new RegExp(pattern, flags); for (const probe of probes) re.test(probe)',
+      { pattern, flags, probes },
+      { timeout: PROBE_TIMEOUT_MS * probes.length }
+    )
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate a user-supplied regex for safe use in the sanitizer.
+ *
+ * @param pattern - Regex source
+ * @param flags - Regex flags (only i, m, s, u; `g` is added by the detector)
+ * @returns null when safe, otherwise the reason it was rejected
+ */
+export function checkRegexSafety(pattern: string, flags = ''): string | null {
+  if (pattern.length === 0) return 'pattern must not be empty'
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `pattern must not exceed ${MAX_PATTERN_LENGTH} characters`
+  }
+  if (!ALLOWED_FLAGS.test(flags)) return 'only the i, m, s and u flags are allowed'
+
+  try {
+    new RegExp(pattern, flags)
+  } catch (error) {
+    return error instanceof Error ? error.message : 'invalid regular expression'
+  }
+
+  if (new RegExp(pattern, flags).test('')) return 'pattern must not match the empty string'
+
+  const unsafe = findUnsafeConstruct(pattern)
+  if (unsafe) return unsafe
+
+  if (!passesRuntimeProbe(pattern, flags)) return 'pattern timed out on adversarial input'
+
+  return null
+}
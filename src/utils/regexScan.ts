@@ -0,0 +1,197 @@
+/**
+ * Windowed Regex Scanning
+ *
+ * Runs a global regex over arbitrarily long text without ever handing it
+ * more than a window's worth of characters. The text is walked once, front
+ * to back; each window is matched on a slice that adds a little context
+ * before it (for lookbehinds and `\b`) and the longest possible match plus
+ * context after it. Matching resumes exactly where the previous match
+ * ended, so for a pattern whose matches never exceed `maxLength` the result
+ * equals a `matchAll` over the whole text, while backtracking, however bad,
+ * stays confined to one slice. Because a window only needs `maxLength`
+ * plus context characters past its end, the same walk can follow text as
+ * it arrives (see RegexScanner). A pattern with long matches that always
+ * begin the same way (a PEM BEGIN line) can name that opening, so text
+ * arriving in pieces is only held back from an opening on.
+ */
+
+/** Characters of context around each window for lookbehinds and lookaheads */
+export const SCAN_CONTEXT = 64
+/** Smallest window; patterns with long matches get windows twice their maxLength */
+export const SCAN_WINDOW = 4096
+
+/** Where a pattern's matches can begin */
+export interface ScanOpener {
+  /** Matches (with the `g` flag) at every offset a match of the pattern can start */
+  regex: RegExp
+  /** Longest text the opener regex matches */
+  maxLength: number
+}
+
+export interface ScanOptions {
+  /** Longest match the pattern can produce; longer ones may be cut short or missed */
+  maxLength: number
+  /** Window size override (default: the larger of SCAN_WINDOW and 2 * maxLength) */
+  window?: number
+  /** Lets an incremental scan settle text without an opening instead of holding back maxLength */
+  opener?: ScanOpener
+  /**
+   * Offset within a match to search again from instead of reporting it, so a
+   * rejected match can still hold a shorter one; undefined reports the match
+   */
+  reject?: (matched: string) => number | undefined
+}
+
+/** A non-empty match with offsets into the scanned text */
+export interface ScanMatch {
+  start: number
+  end: number
+  /** Capture group offsets; present when the regex carries the `d` flag */
+  indices?: ([number, number] | undefined)[]
+}
+
+/**
+ * Incremental scanner over text that arrives in pieces.
+ *
+ * Each call scans as far as the text so far settles: a start is only tried
+ * once `maxLength` plus context characters follow it, or the text has ended.
+ * With an opener, starts before the first opening are settled as soon as
+ * the opener could not match there, however long the pattern's matches.
+ * Fed the same text in any pieces, it reports the same matches as one
+ * scanRegex over the whole text.
+ */
+export class RegexScanner {
+  readonly #regex: RegExp
+  readonly #maxLength: number
+  readonly #window: number
+  readonly #opener: ScanOpener | undefined
+  readonly #reject: ScanOptions['reject']
+  #position = 0
+  /** No opening starts before this offset */
+  #unopened = 0
+
+  /**
+   * @param regex - Regex with the `g` flag (plus `d` for capture group offsets)
+   * @param options - Longest match the pattern produces, optional window size
+   */
+  constructor(regex: RegExp, options: ScanOptions) {
+    this.#regex = regex
+    this.#maxLength = options.maxLength
+    this.#window = options.window ?? Math.max(SCAN_WINDOW, 2 * options.maxLength)
+    this.#opener = options.opener
+    this.#reject = options.reject
+  }
+
+  /** Every match starting before this offset has been reported */
+  get frontier(): number {
+    return this.#position
+  }
+
+  /** Earliest offset later scans read, lookbehind context included */
+  get retainFrom(): number {
+    return Math.max(0, this.#position - SCAN_CONTEXT)
+  }
+
+  /**
+   * Scan the text that has arrived so far.
+   *
+   * @param text - Text from `offset` to the end of what has arrived; must start at or before retainFrom
+   * @param offset - Offset of `text` in the whole input
+   * @param final - No more text will arrive
+   * @returns Newly settled matches, in order, with offsets into the whole input
+   */
+  scan(text: string, offset = 0, final = true): ScanMatch[] {
+    const regex = this.#regex
+    const maxLength = this.#maxLength
+    // Starts before `settled` can be tried: everything a match there reads has arrived
+    const end = offset + text.length
+    let settled = end - (final ? 0 : maxLength + SCAN_CONTEXT)
+    if (!final && this.#opener) settled = Math.max(settled, this.#nextOpening(text, offset))
+    const matches: ScanMatch[] = []
+
+    while (this.#position < settled) {
+      const position = this.#position
+      // Only matches starting before `limit` belong to this window
+      const limit = Math.min(settled, position + this.#window)
+      const sliceStart = Math.max(0, position - SCAN_CONTEXT)
+      const slice = text.slice(sliceStart - offset, limit + maxLength + SCAN_CONTEXT - offset)
+      let next = limit
+
+      regex.lastIndex = position - sliceStart
+      for (let match = regex.exec(slice); match; match = regex.exec(slice)) {
+        const start = sliceStart + match.index
+        if (start >= limit) break
+
+        const end = start + match[0].length
+        if (end === start) {
+          regex.lastIndex++
+          continue
+        }
+
+        const rejected = this.#reject?.(match[0])
+        if (rejected !== undefined) {
+          // Like a long match, a restart past the window moves the next window there
+          const resume = start + Math.max(1, rejected)
+          if (resume > limit) {
+            next = resume
+            break
+          }
+          regex.lastIndex = resume - sliceStart
+          continue
+        }
+
+        matches.push({
+          start,
+          end,
+          ...(match.indices && {
+            indices: match.indices.map((range) =>
+              range ? [range[0] + sliceStart, range[1] + sliceStart] : undefined
+            ),
+          }),
+        })
+        // A match running past the window moves the next window to its end
+        if (end > limit) {
+          next = end
+          break
+        }
+      }
+      this.#position = next
+    }
+
+    regex.lastIndex = 0
+    return matches
+  }
+
+  /**
+   * Find where the first opening after the scanned text starts, as far as the text so far tells.
+   *
+   * @returns Offset of the first opening, or the earliest offset one could still start at
+   */
+  #nextOpening(text: string, offset: number): number {
+    const { regex, maxLength } = this.#opener!
+    // Openings starting before `known` are found whatever text follows
+    const known = offset + text.length - maxLength - SCAN_CONTEXT
+    const from = Math.max(this.#unopened, this.#position)
+    if (from >= known) return from
+
+    const sliceStart = Math.max(offset, from - SCAN_CONTEXT)
+    regex.lastIndex = from - sliceStart
+    const opening = regex.exec(text.slice(sliceStart - offset))
+    regex.lastIndex = 0
+
+    this.#unopened = Math.min(opening ? sliceStart + opening.index : Infinity, known)
+    return this.#unopened
+  }
+}
+
+/**
+ * Find every non-empty match of a global regex, in order and without overlaps.
+ *
+ * @param regex - Regex with the `g` flag (plus `d` for capture group offsets)
+ * @param text - Text to scan
+ * @param options - Longest match the pattern produces, optional window size
+ * @returns Matches with offsets into `text`
+ */
+export function scanRegex(regex: RegExp, text: string, options: ScanOptions): ScanMatch[] {
+  return new RegexScanner(regex, options).scan(text)
+}
@@ -0,0 +1,352 @@
+// Mock the logger to avoid console noise in tests - must be before imports
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+import * as fs from 'fs/promises'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import type { AddressInfo } from 'net'
+import * as os from 'os'
+import * as path from 'path'
+
+import { CircuitBreaker, Result } from '../src/lib'
+import {
+  createAiProvider,
+  createOpenAiProvider,
+  isProviderFailure,
+  loadAiProviders,
+  withCircuitBreaker,
+} from '../src/services/ai'
+
+/** Request as seen by the stub server */
+interface Received {
+  method?: string
+  url?: string
+  authorization?: string
+  body: unknown
+}
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void
+
+/** Local stand-in for an OpenAI-compatible API */
+class StubServer {
+  received: Received[] = []
+  handler: Handler = (_req, res) => res.end()
+  readonly #server: Server
+
+  constructor() {
+    this.#server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk: Buffer) => (body += chunk.toString()))
+      req.on('end', () => {
+        this.received.push({
+          method: req.method,
+          url: req.url,
+          authorization: req.headers.authorization,
+          body: body ? JSON.parse(body) : undefined,
+        })
+        this.handler(req, res)
+      })
+    })
+  }
+
+  get baseUrl(): string {
+    return `http://127.0.0.1:${(this.#server.address() as AddressInfo).port}/v1`
+  }
+
+  listen(): Promise<void> {
+    return new Promise((resolve) => this.#server.listen(0, '127.0.0.1', resolve))
+  }
+
+  close(): Promise<void> {
+    this.#server.closeAllConnections()
+    return new Promise((resolve) => this.#server.close(() => resolve()))
+  }
+}
+
+function json(status: number, body: unknown): Handler {
+  return (_req, res) => {
+    res.writeHead(status, { 'content-type': 'application/json' })
+    res.end(JSON.stringify(body))
+  }
+}
+
+const completion = (content: string) => ({
+  model: 'stub-model-0613',
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+})
+
+describe('AI Providers', () => {
+  const stub = new StubServer()
+
+  beforeAll(() => stub.listen())
+  afterAll(() => stub.close())
+  beforeEach(() => {
+    stub.received = []
+  })
+
+  const provider = () =>
+    createOpenAiProvider({ baseUrl: stub.baseUrl, apiKey: 'sk-test', model: 'stub-model' })
+
+  describe('OpenAI-Compatible Adapter', () => {
+    it('should send a message as one user turn and return the answer', async () => {
+      stub.handler = json(200, completion('Hello there'))
+
+      const result = await provider().complete('Contact me at <REDACTED: EMAIL>')
+
+      expect(Result.isOk(result)).toBe(true)
+      if (Result.isOk(result)) {
+        expect(result.value.answer).toBe('Hello there')
+        expect(result.value.model).toBe('stub-model-0613')
+      }
+      expect(stub.received).toEqual([
+        {
+          method: 'POST',
+          url: '/v1/chat/completions',
+          authorization: 'Bearer sk-test',
+          body: {
+            model: 'stub-model',
+            messages: [{ role: 'user', content: 'Contact me at <REDACTED: EMAIL>' }],
+          },
+        },
+      ])
+    })
+
+    it('should send a conversation as chat messages', async () => {
+      stub.handler = json(200, completion('Sure'))
+      const messages = [
+        { role: 'system' as const, content: 'Be brief.' },
+        { role: 'user' as const, content: 'Hi' },
+        { role: 'assistant' as const, content: 'Hello' },
+        { role: 'user' as const, content: 'Help?' },
+      ]
+
+      await provider().complete(messages)
+
+      expect(stub.received[0].body).toEqual({ model: 'stub-model', messages })
+    })
+
+    it('should map an upstream error to a 502 without its body', async () => {
+      stub.handler = json(429, { error: { message: 'Rate limit reached for a user' } })
+
+      const result = await provider().complete('Hi')
+
+      expect(Result.isErr(result)).toBe(true)
+      if (Result.isErr(result)) {
+        expect(result.error.status).toBe(502)
+        expect(result.error.code).toBe('AI_SERVICE_ERROR')
+        expect(result.error.details).toEqual({ provider: 'openai', upstreamStatus: 429 })
+        expect(result.error.message).not.toContain('Rate limit')
+      }
+    })
+
+    it('should reject a response without choices', async () => {
+      stub.handler = json(200, { choices: [] })
+
+      const result = await provider().complete('Hi')
+
+      expect(Result.isErr(result) && result.error.status).toBe(502)
+    })
+
+    it('should reject a body that is not JSON', async () => {
+      stub.handler = (_req, res) => res.end('<html>gateway</html>')
+
+      const result = await provider().complete('Hi')
+
+      expect(Result.isErr(result) && result.error.message).toBe(
+        'AI provider returned an invalid response'
+      )
+    })
+
+    it('should time out a slow provider with a 504', async () => {
+      stub.handler = (_req, res) => setTimeout(() => json(200, completion('late'))(_req, res), 500)
+      const slow = createOpenAiProvider({ baseUrl: stub.baseUrl, model: 'stub', timeoutMs: 50 })
+
+      const result = await slow.complete('Hi')
+
+      expect(Result.isErr(result)).toBe(true)
+      if (Result.isErr(result)) {
+        expect(result.error.status).toBe(504)
+        expect(result.error.code).toBe('AI_TIMEOUT')
+      }
+    })
+
+    it('should cut the timeout short at the caller deadline', async () => {
+      stub.handler = (_req, res) => setTimeout(() => json(200, completion('late'))(_req, res), 500)
+
+      const result = await provider().complete('Hi', { deadline: Date.now() + 50 })
+
+      expect(Result.isErr(result) && result.error.code).toBe('AI_TIMEOUT')
+    })
+
+    it('should not call the provider once the deadline has passed', async () => {
+      const result = await provider().complete('Hi', { deadline: Date.now() - 1 })
+
+      expect(Result.isErr(result) && result.error.status).toBe(504)
+      expect(stub.received).toHaveLength(0)
+    })
+
+    it('should report an unreachable provider', async () => {
+      const closed = new StubServer()
+      await closed.listen()
+      const baseUrl = closed.baseUrl
+      await closed.close()
+
+      const result = await createOpenAiProvider({ baseUrl, model: 'stub' }).complete('Hi')
+
+      expect(Result.isErr(result) && result.error.message).toBe('AI provider is unreachable')
+    })
+
+    it('should probe the models endpoint without credentials when none are set', async () => {
+      stub.handler = json(200, { data: [{ id: 'stub-model' }] })
+
+      const result = await createOpenAiProvider({
+        baseUrl: `${stub.baseUrl}/`,
+        model: 'stub-model',
+      }).probe()
+
+      expect(Result.isOk(result)).toBe(true)
+      expect(stub.received).toEqual([
+        { method: 'GET', url: '/v1/models', authorization: undefined, body: undefined },
+      ])
+    })
+
+    it('should fail the probe when the provider is down', async () => {
+      stub.handler = json(503, { error: 'overloaded' })
+
+      const result = await provider().probe()
+
+      expect(Result.isErr(result) && result.error.details).toEqual({
+        provider: 'openai',
+        upstreamStatus: 503,
+      })
+    })
+  })
+
+  describe('Circuit Breaker', () => {
+    it('should trip on upstream errors and then fail fast, probe included', async () => {
+      stub.handler = json(500, { error: 'boom' })
+      const breaker = new CircuitBreaker({ name: 'ai:openai', failureThreshold: 2 })
+      const guarded = withCircuitBreaker(provider(), breaker)
+
+      await guarded.complete('Hi')
+      await guarded.complete('Hi')
+      const rejected = await guarded.complete('Hi')
+      const probe = await guarded.probe()
+
+      expect(stub.received).toHaveLength(2)
+      expect(Result.isErr(rejected) && rejected.error.message).toBe('Service Busy')
+      expect(Result.isErr(probe) && probe.error.status).toBe(503)
+    })
+
+    it('should not count a rejected request against the provider', async () => {
+      const breaker = new CircuitBreaker({
+        name: 'ai:openai',
+        failureThreshold: 1,
+        isFailure: isProviderFailure,
+      })
+      const guarded = withCircuitBreaker(provider(), breaker)
+
+      stub.handler = json(400, { error: 'context_length_exceeded' })
+      await guarded.complete('Hi')
+      expect(breaker.state).toBe('closed')
+
+      stub.handler = json(429, { error: 'rate_limited' })
+      await guarded.complete('Hi')
+      expect(breaker.state).toBe('open')
+    })
+  })
+
+  describe('Selection', () => {
+    it('should select the mock by default configuration', () => {
+      expect(createAiProvider({ provider: 'mock' }).name).toBe('mock')
+    })
+
+    it('should select the adapter with its name and capabilities', () => {
+      const selected = createAiProvider({
+        provider: 'openai',
+        name: 'local-vllm',
+        baseUrl: stub.baseUrl,
+        model: 'llama-3-8b',
+      })
+
+      expect(selected.name).toBe('local-vllm')
+      expect(selected.capabilities).toEqual({
+        model: 'llama-3-8b',
+        conversations: true,
+        streaming: false,
+      })
+    })
+  })
+
+  describe('Config File Loading', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'providers-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    async function load(definitions: unknown, environment: NodeJS.ProcessEnv = {}) {
+      const file = path.join(dir, 'providers.json')
+      await fs.writeFile(file, JSON.stringify(definitions))
+      return loadAiProviders(file, environment, 20_000)
+    }
+
+    it('should load providers in order with weights and keys from the environment', async () => {
+      const result = await load(
+        [
+          {
+            provider: 'openai',
+            name: 'primary',
+            baseUrl: 'https://api.openai.com/v1',
+            apiKeyEnv: 'PRIMARY_KEY',
+            model: 'gpt-4o-mini',
+            weight: 3,
+          },
+          { provider: 'mock', weight: 0 },
+        ],
+        { PRIMARY_KEY: 'sk-primary' }
+      )
+
+      expect(result).toEqual({
+        ok: true,
+        value: [
+          {
+            provider: 'openai',
+            name: 'primary',
+            baseUrl: 'https://api.openai.com/v1',
+            apiKey: 'sk-primary',
+            model: 'gpt-4o-mini',
+            timeoutMs: 20_000,
+            weight: 3,
+          },
+          { provider: 'mock', name: 'mock', weight: 0 },
+        ],
+      })
+    })
+
+    it('should reject a key variable that is not set', async () => {
+      const result = await load([
+        { provider: 'openai', baseUrl: 'https://x.test/v1', apiKeyEnv: 'MISSING', model: 'm' },
+      ])
+
+      expect(Result.isErr(result) && result.error.message).toContain('MISSING')
+    })
+
+    it('should reject duplicate names, negative weights and an empty list', async () => {
+      expect((await load([{ provider: 'mock' }, { provider: 'mock' }])).ok).toBe(false)
+      expect((await load([{ provider: 'mock', weight: -1 }])).ok).toBe(false)
+      expect((await load([])).ok).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,338 @@
+// Mock the logger to avoid console noise in tests - must be before imports
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+import { AppError, CircuitBreaker, Errors, Result, RetryPolicy } from '../src/lib'
+import {
+  type AiProvider,
+  type AiRoute,
+  AiRouter,
+  isRetryableProviderError,
+  withCircuitBreaker,
+} from '../src/services/ai'
+
+/** Provider that answers, or fails with the given error */
+function fakeProvider(name: string, error?: AppError) {
+  const provider: AiProvider = {
+    name,
+    capabilities: { model: `${name}-model`, conversations: true, streaming: false },
+    complete: jest.fn(async () =>
+      error
+        ? Result.err(error)
+        : Result.ok({ answer: `from ${name}`, processingTime: 1, model: `${name}-model` })
+    ),
+    probe: async () => Result.ok({ latencyMs: 0 }),
+  }
+  return provider
+}
+
+function route(
+  provider: AiProvider,
+  weight = 1,
+  breaker = new CircuitBreaker({ name: provider.name })
+) {
+  return { provider: withCircuitBreaker(provider, breaker), breaker, weight }
+}
+
+/** Breaker that is already open */
+async function openBreaker(name: string) {
+  const breaker = new CircuitBreaker({ name, failureThreshold: 1 })
+  await breaker.execute(async () => Result.err(Errors.internal('down')))
+  return breaker
+}
+
+const names = (routes: AiRoute[]) => routes.map((route) => route.provider.name)
+
+/** Up to three attempts per provider, without waiting between them */
+const retryPolicy = new RetryPolicy(
+  { maxAttempts: 3, isRetryable: isRetryableProviderError },
+  { now: Date.now, sleep: async () => undefined, random: () => 0.5 }
+)
+
+/** Provider whose first calls fail with the given errors */
+function flakyProvider(name: string, ...errors: AppError[]) {
+  const provider = fakeProvider(name)
+  const answer = provider.complete
+  provider.complete = jest.fn(async (input) => {
+    const error = errors.shift()
+    return error ? Result.err(error) : answer(input)
+  })
+  return provider
+}
+
+describe('AI Router', () => {
+  describe('Weighted Routing', () => {
+    it('should pick the first provider in proportion to the weights', () => {
+      const routes = [route(fakeProvider('a'), 1), route(fakeProvider('b'), 3)]
+
+      expect(names(new AiRouter(routes, () => 0.2).order())).toEqual(['a', 'b'])
+      expect(names(new AiRouter(routes, () => 0.25).order())).toEqual(['b', 'a'])
+      expect(names(new AiRouter(routes, () => 0.99).order())).toEqual(['b', 'a'])
+    })
+
+    it('should split traffic by weight over many requests', () => {
+      let seed = 1
+      // Deterministic uniform numbers
+      const random = () => ((seed = (seed * 16807) % 2147483647) - 1) / 2147483646
+      const router = new AiRouter(
+        [route(fakeProvider('a'), 1), route(fakeProvider('b'), 4), route(fakeProvider('c'), 0)],
+        random
+      )
+      const counts: Record<string, number> = { a: 0, b: 0, c: 0 }
+
+      for (let i = 0; i < 5000; i++) counts[router.order()[0].provider.name]++
+
+      expect(counts.c).toBe(0)
+      expect(counts.a / 5000).toBeCloseTo(0.2, 1)
+      expect(counts.b / 5000).toBeCloseTo(0.8, 1)
+    })
+
+    it('should not pick a provider whose circuit is open', async () => {
+      const routes = [
+        route(fakeProvider('a'), 1, await openBreaker('a')),
+        route(fakeProvider('b'), 1),
+      ]
+
+      expect(names(new AiRouter(routes, () => 0).order())).toEqual(['b', 'a'])
+    })
+  })
+
+  describe('Failover', () => {
+    it('should fall through to the next provider when a call fails', async () => {
+      const failing = fakeProvider('a', Errors.internal('boom'))
+      const router = new AiRouter([route(failing), route(fakeProvider('b'))], () => 0)
+
+      const result = await router.complete('Hi')
+
+      expect(result).toEqual(
+        Result.ok({
+          answer: 'from b',
+          processingTime: 1,
+          model: 'b-model',
+          provider: 'b',
+          failovers: [{ provider: 'a', code: 'INTERNAL_SERVER_ERROR', attempts: 1 }],
+          attempts: 2,
+        })
+      )
+    })
+
+    it('should skip an open circuit without calling the provider', async () => {
+      const skipped = fakeProvider('a')
+      const router = new AiRouter(
+        [route(skipped, 0, await openBreaker('a')), route(fakeProvider('b'), 0)],
+        () => 0
+      )
+
+      const result = await router.complete('Hi')
+
+      expect(skipped.complete).not.toHaveBeenCalled()
+      expect(Result.isOk(result) && result.value.failovers).toEqual([
+        { provider: 'a', code: 'CIRCUIT_OPEN', attempts: 0 },
+      ])
+    })
+
+    it('should return the last error with every failover when all providers fail', async () => {
+      const router = new AiRouter([
+        route(fakeProvider('a', Errors.internal('boom')), 1),
+        route(
+          fakeProvider('b', new AppError({ status: 504, code: 'AI_TIMEOUT', message: 'slow' })),
+          0
+        ),
+      ])
+
+      const result = await router.complete('Hi')
+
+      expect(Result.isErr(result)).toBe(true)
+      if (Result.isErr(result)) {
+        expect(result.error.error.status).toBe(504)
+        expect(result.error.failovers).toEqual([
+          { provider: 'a', code: 'INTERNAL_SERVER_ERROR', attempts: 1 },
+          { provider: 'b', code: 'AI_TIMEOUT', attempts: 1 },
+        ])
+      }
+    })
+
+    it('should answer 503 Service Busy when every circuit is open', async () => {
+      const router = new AiRouter([route(fakeProvider('a'), 1, await openBreaker('a'))])
+
+      const result = await router.complete('Hi')
+
+      expect(Result.isErr(result) && result.error).toMatchObject({
+        failovers: [{ provider: 'a', code: 'CIRCUIT_OPEN', attempts: 0 }],
+        attempts: 0,
+      })
+      expect(Result.isErr(result) && result.error.error.toResponse()).toEqual({
+        status: 503,
+        code: 'SERVICE_UNAVAILABLE',
+        message: 'Service Busy',
+      })
+    })
+
+    it('should keep provider details and failovers out of the client response', async () => {
+      const upstream = new AppError({
+        status: 502,
+        code: 'AI_SERVICE_ERROR',
+        message: 'AI provider responded with 500',
+        details: { provider: 'azure-eu', upstreamStatus: 500 },
+      })
+      const router = new AiRouter([route(fakeProvider('azure-eu', upstream))])
+
+      const result = await router.complete('Hi')
+
+      expect(Result.isErr(result) && result.error.error.toResponse()).toEqual({
+        status: 502,
+        code: 'AI_SERVICE_ERROR',
+        message: 'AI provider responded with 500',
+      })
+    })
+  })
+
+  describe('Retries', () => {
+    it('should retry a transient failure on the same provider', async () => {
+      const flaky = flakyProvider('a', Errors.internal('blip'))
+      const router = new AiRouter([route(flaky), route(fakeProvider('b'))], () => 0, retryPolicy)
+
+      const result = await router.complete('Hi')
+
+      expect(flaky.complete).toHaveBeenCalledTimes(2)
+      expect(Result.isOk(result) && result.value).toMatchObject({
+        provider: 'a',
+        failovers: [],
+        attempts: 2,
+      })
+    })
+
+    it('should fail over once the attempts are used up', async () => {
+      const down = fakeProvider('a', Errors.internal('down'))
+      const router = new AiRouter([route(down), route(fakeProvider('b'))], () => 0, retryPolicy)
+
+      const result = await router.complete('Hi')
+
+      expect(down.complete).toHaveBeenCalledTimes(3)
+      expect(Result.isOk(result) && result.value).toMatchObject({
+        provider: 'b',
+        failovers: [{ provider: 'a', code: 'INTERNAL_SERVER_ERROR', attempts: 3 }],
+        attempts: 4,
+      })
+    })
+
+    it('should not retry an upstream rejection', async () => {
+      const rejecting = fakeProvider(
+        'a',
+        new AppError({
+          status: 502,
+          code: 'AI_SERVICE_ERROR',
+          message: 'AI provider responded with 400',
+          details: { upstreamStatus: 400 },
+        })
+      )
+      const router = new AiRouter([route(rejecting)], () => 0, retryPolicy)
+
+      const result = await router.complete('Hi')
+
+      expect(rejecting.complete).toHaveBeenCalledTimes(1)
+      expect(Result.isErr(result) && result.error.attempts).toBe(1)
+    })
+
+    it('should count every attempt towards the breaker and stop retrying once it opens', async () => {
+      const down = fakeProvider('a', Errors.internal('down'))
+      const breaker = new CircuitBreaker({ name: 'a', failureThreshold: 2 })
+      const router = new AiRouter(
+        [route(down, 1, breaker), route(fakeProvider('b'))],
+        () => 0,
+        retryPolicy
+      )
+
+      const result = await router.complete('Hi')
+
+      // The third attempt is rejected by the open breaker without reaching the provider
+      expect(down.complete).toHaveBeenCalledTimes(2)
+      expect(breaker.state).toBe('open')
+      expect(Result.isOk(result) && result.value).toMatchObject({
+        provider: 'b',
+        failovers: [{ provider: 'a', code: 'SERVICE_UNAVAILABLE', attempts: 3 }],
+      })
+    })
+
+    it('should not call providers once the deadline has passed', async () => {
+      const late = fakeProvider('a')
+      const router = new AiRouter([route(late)], () => 0, retryPolicy)
+
+      const result = await router.complete('Hi', [], Date.now() - 1)
+
+      expect(late.complete).not.toHaveBeenCalled()
+      expect(Result.isErr(result) && result.error.error).toMatchObject({
+        status: 504,
+        code: 'AI_DEADLINE_EXCEEDED',
+      })
+    })
+
+    it('should answer 504 with the failovers when the deadline passes between providers', async () => {
+      const slow = fakeProvider('a')
+      slow.complete = jest.fn(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 30))
+        return Result.err(
+          new AppError({ status: 502, code: 'AI_SERVICE_ERROR', message: 'upstream failed' })
+        )
+      })
+      const next = fakeProvider('b')
+      const router = new AiRouter([route(slow), route(next, 0)], () => 0, retryPolicy)
+
+      const result = await router.complete('Hi', [], Date.now() + 10)
+
+      expect(next.complete).not.toHaveBeenCalled()
+      expect(Result.isErr(result) && result.error).toMatchObject({
+        error: { status: 504, code: 'AI_DEADLINE_EXCEEDED' },
+        failovers: [{ provider: 'a', code: 'AI_SERVICE_ERROR', attempts: 1 }],
+        attempts: 1,
+      })
+    })
+
+    it('should pass the deadline on to the provider', async () => {
+      const provider = fakeProvider('a')
+      const deadline = Date.now() + 5000
+
+      await new AiRouter([route(provider)]).complete('Hi', [], deadline)
+
+      expect(provider.complete).toHaveBeenCalledWith('Hi', { deadline })
+    })
+  })
+
+  describe('Tenant Preference', () => {
+    it('should try preferred providers first, in the tenant order', () => {
+      const router = new AiRouter(
+        [route(fakeProvider('a'), 1), route(fakeProvider('b'), 0), route(fakeProvider('c'), 0)],
+        () => 0
+      )
+
+      expect(names(router.order(['c', 'b']))).toEqual(['c', 'b', 'a'])
+    })
+
+    it('should ignore unknown and repeated names', () => {
+      const router = new AiRouter(
+        [route(fakeProvider('a'), 1), route(fakeProvider('b'), 1)],
+        () => 0
+      )
+
+      expect(names(router.order(['gone', 'b', 'b']))).toEqual(['b', 'a'])
+    })
+
+    it('should still fail over from a preferred provider that fails', async () => {
+      const router = new AiRouter(
+        [route(fakeProvider('a'), 1), route(fakeProvider('b', Errors.internal('boom')), 1)],
+        () => 0
+      )
+
+      const result = await router.complete('Hi', ['b'])
+
+      expect(Result.isOk(result) && result.value.provider).toBe('a')
+    })
+  })
+})
@@ -0,0 +1,160 @@
+// Mock the environment and logger - must be before imports
+jest.mock('../src/env', () => ({
+  env: { JWT_SECRET: 'test-secret-that-is-at-least-32-chars' },
+}))
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+
+import { createHmac } from 'crypto'
+import type { Request } from 'express'
+
+import { AppError } from '../src/lib'
+import { expressAuthentication, verifyJwt } from '../src/utils/authentication'
+
+const SECRET = 'test-secret-that-is-at-least-32-chars'
+
+const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url')
+
+/** Sign a token the way an issuer would */
+function sign(
+  claims: object,
+  { secret = SECRET, header = { alg: 'HS256', typ: 'JWT' } as object } = {}
+): string {
+  const now = Math.floor(Date.now() / 1000)
+  const unsigned = `${encode(header)}.${encode({ sub: 'client-1', iat: now, exp: now + 3600, ...claims })}`
+  return `${unsigned}.${createHmac('sha256', secret).update(unsigned).digest('base64url')}`
+}
+
+const request = (authorization?: string) =>
+  ({ headers: authorization ? { authorization } : {} }) as Request
+
+/** The AppError a promise rejects with */
+async function rejection(promise: Promise<unknown>): Promise<AppError> {
+  try {
+    await promise
+  } catch (error) {
+    return error as AppError
+  }
+  throw new Error('expected a rejection')
+}
+
+describe('Authentication', () => {
+  describe('Token Verification', () => {
+    it('should accept a token signed with the secret', () => {
+      expect(verifyJwt(sign({ roles: ['admin'] }), SECRET)).toMatchObject({
+        sub: 'client-1',
+        roles: ['admin'],
+      })
+    })
+
+    it('should reject a token signed with another secret', () => {
+      expect(() => verifyJwt(sign({}, { secret: 'x'.repeat(32) }), SECRET)).toThrow(
+        'Invalid or expired token'
+      )
+    })
+
+    it('should reject unsigned and non-HS256 tokens', () => {
+      const unsigned = sign({}, { header: { alg: 'none' } })
+
+      expect(() => verifyJwt(unsigned, SECRET)).toThrow(AppError)
+      expect(() => verifyJwt(`${unsigned.split('.').slice(0, 2).join('.')}.`, SECRET)).toThrow(
+        AppError
+      )
+    })
+
+    it('should reject expired and not-yet-valid tokens', () => {
+      const now = Math.floor(Date.now() / 1000)
+
+      expect(() => verifyJwt(sign({ exp: now - 1 }), SECRET)).toThrow(AppError)
+      expect(() => verifyJwt(sign({ nbf: now + 60 }), SECRET)).toThrow(AppError)
+    })
+
+    it('should reject a tampered payload', () => {
+      const [header, , signature] = sign({ roles: ['developer'] }).split('.')
+      const forged = `${header}.${encode({ sub: 'client-1', iat: 0, exp: 9e9, roles: ['admin'] })}.${signature}`
+
+      expect(() => verifyJwt(forged, SECRET)).toThrow(AppError)
+    })
+  })
+
+  describe('Route Scopes', () => {
+    it('should answer 401 without a token and for an invalid one', async () => {
+      const missing = await rejection(expressAuthentication(request(), 'bearer', ['admin']))
+      const invalid = await rejection(
+        expressAuthentication(request('Bearer not.a.token'), 'bearer', ['admin'])
+      )
+
+      expect([missing.status, missing.code]).toEqual([401, 'NO_TOKEN'])
+      expect([invalid.status, invalid.code]).toEqual([401, 'INVALID_TOKEN'])
+    })
+
+    it('should reject a non-admin token on admin routes with a 403', async () => {
+      const token = sign({ roles: ['developer'] })
+
+      const error = await rejection(
+        expressAuthentication(request(`Bearer ${token}`), 'bearer', ['admin'])
+      )
+
+      expect([error.status, error.code]).toEqual([403, 'FORBIDDEN'])
+      expect(error.message).toBe('Requires the admin role')
+    })
+
+    it('should admit a token holding the admin role', async () => {
+      const token = sign({ roles: ['admin'], tenant: 'acme' })
+
+      await expect(
+        expressAuthentication(request(`Bearer ${token}`), 'bearer', ['admin'])
+      ).resolves.toEqual(
+        expect.objectContaining({ id: 'client-1', roles: ['admin'], tenantId: 'acme' })
+      )
+    })
+
+    it('should admit a developer token to the preview route (developer scope)', async () => {
+      const token = sign({ roles: ['developer'] })
+
+      await expect(
+        expressAuthentication(request(`Bearer ${token}`), 'bearer', ['developer'])
+      ).resolves.toEqual(expect.objectContaining({ id: 'client-1', roles: ['developer'] }))
+    })
+
+    it('should reject tokens without the developer role from the preview route', async () => {
+      for (const roles of [[], ['admin'], ['viewer']]) {
+        const token = sign({ roles })
+
+        const error = await rejection(
+          expressAuthentication(request(`Bearer ${token}`), 'bearer', ['developer'])
+        )
+
+        expect([error.status, error.code]).toEqual([403, 'FORBIDDEN'])
+        expect(error.message).toBe('Requires the developer role')
+      }
+    })
+
+    it('should answer 401 on the preview route for an expired or forged token', async () => {
+      const expired = sign({ roles: ['developer'], exp: Math.floor(Date.now() / 1000) - 60 })
+      const forged = sign({ roles: ['developer'] }, { secret: 'y'.repeat(32) })
+
+      for (const token of [expired, forged]) {
+        const error = await rejection(
+          expressAuthentication(request(`Bearer ${token}`), 'bearer', ['developer'])
+        )
+        expect(error.status).toBe(401)
+      }
+    })
+
+    it('should reject a token without roles', async () => {
+      const error = await rejection(
+        expressAuthentication(request(`Bearer ${sign({})}`), 'bearer', ['admin'])
+      )
+
+      expect(error.status).toBe(403)
+    })
+  })
+})
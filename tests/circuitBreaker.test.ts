@@ -0,0 +1,443 @@
+import * as fc from 'fast-check'
+
+import { AppError, CircuitBreaker, type CircuitStateChange, Errors, Result } from '../src/lib'
+
+function clock(start = 0): { now: () => number; advance: (ms: number) => void } {
+  let time = start
+  return { now: () => time, advance: (ms) => (time += ms) }
+}
+
+const succeed = async () => Result.ok('answer')
+const fail = async () => Result.err(Errors.internal('dependency down'))
+
+/** A call that stays in flight until released */
+function pending() {
+  let release!: () => void
+  const done = new Promise<void>((resolve) => (release = resolve))
+  return {
+    call: async () => {
+      await done
+      return Result.ok('late')
+    },
+    release: () => release(),
+  }
+}
+
+async function failTimes(breaker: CircuitBreaker, times: number) {
+  for (let i = 0; i < times; i++) await breaker.execute(fail)
+}
+
+describe('Circuit Breaker', () => {
+  describe('Closed', () => {
+    it('should start closed with no history', () => {
+      const breaker = new CircuitBreaker({ name: 'db' })
+
+      expect(breaker.status()).toEqual({
+        name: 'db',
+        state: 'closed',
+        failures: 0,
+        lastFailure: null,
+        lastSuccess: null,
+      })
+    })
+
+    it('should open after the configured consecutive failures', async () => {
+      const breaker = new CircuitBreaker({ name: 'db', failureThreshold: 2 })
+
+      await failTimes(breaker, 1)
+      expect(breaker.state).toBe('closed')
+      await failTimes(breaker, 1)
+      expect(breaker.state).toBe('open')
+    })
+
+    it('should reset the count on success', async () => {
+      const breaker = new CircuitBreaker({ name: 'db', failureThreshold: 2 })
+
+      await breaker.execute(fail)
+      await breaker.execute(succeed)
+      await breaker.execute(fail)
+
+      expect(breaker.status().failures).toBe(1)
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should ignore errors the classifier does not count', async () => {
+      const breaker = new CircuitBreaker({ name: 'ai', failureThreshold: 1 })
+
+      const result = await breaker.execute(async () => Result.err(Errors.badRequest('bad input')))
+
+      expect(Result.isErr(result) && result.error.status).toBe(400)
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should use a custom classifier', async () => {
+      const breaker = new CircuitBreaker({
+        name: 'ai',
+        failureThreshold: 1,
+        isFailure: (error) => error.status === 429,
+      })
+
+      await breaker.execute(fail)
+      expect(breaker.state).toBe('closed')
+      await breaker.execute(async () => Result.err(Errors.tooManyRequests('slow down')))
+      expect(breaker.state).toBe('open')
+    })
+
+    it('should count a thrown error as a failure and rethrow it', async () => {
+      const breaker = new CircuitBreaker({ name: 'db', failureThreshold: 1 })
+
+      await expect(
+        breaker.execute(async () => {
+          throw new Error('socket hang up')
+        })
+      ).rejects.toThrow('socket hang up')
+      expect(breaker.state).toBe('open')
+    })
+  })
+
+  describe('Open', () => {
+    it('should return 503 without calling the dependency', async () => {
+      const breaker = new CircuitBreaker({ name: 'ai:mock', failureThreshold: 1 })
+      await failTimes(breaker, 1)
+      const call = jest.fn(succeed)
+
+      const result = await breaker.execute(call)
+
+      expect(call).not.toHaveBeenCalled()
+      expect(Result.isErr(result)).toBe(true)
+      if (Result.isErr(result)) {
+        expect(result.error).toBeInstanceOf(AppError)
+        expect(result.error.status).toBe(503)
+        expect(result.error.code).toBe('SERVICE_UNAVAILABLE')
+        expect(result.error.details).toEqual({ circuitBreaker: 'ai:mock' })
+      }
+    })
+
+    it('should half-open once the reset timeout has passed', async () => {
+      const time = clock()
+      const breaker = new CircuitBreaker(
+        { name: 'db', failureThreshold: 1, resetTimeout: 30_000 },
+        time.now
+      )
+      await failTimes(breaker, 1)
+
+      time.advance(29_999)
+      expect(breaker.state).toBe('open')
+      time.advance(1)
+      expect(breaker.state).toBe('half-open')
+    })
+  })
+
+  describe('Half-Open', () => {
+    async function halfOpen(options: { halfOpenMaxCalls?: number; successThreshold?: number }) {
+      const time = clock()
+      const breaker = new CircuitBreaker(
+        { name: 'db', failureThreshold: 1, resetTimeout: 1000, ...options },
+        time.now
+      )
+      await failTimes(breaker, 1)
+      time.advance(1000)
+      return { breaker, time }
+    }
+
+    it('should close after the configured trial successes', async () => {
+      const { breaker } = await halfOpen({ successThreshold: 2 })
+
+      await breaker.execute(succeed)
+      expect(breaker.state).toBe('half-open')
+      await breaker.execute(succeed)
+      expect(breaker.state).toBe('closed')
+      expect(breaker.status().failures).toBe(0)
+    })
+
+    it('should reopen on a trial failure', async () => {
+      const { breaker, time } = await halfOpen({})
+
+      await breaker.execute(fail)
+
+      expect(breaker.state).toBe('open')
+      time.advance(999)
+      expect(breaker.state).toBe('open')
+    })
+
+    it('should limit concurrent trial calls', async () => {
+      const { breaker } = await halfOpen({ halfOpenMaxCalls: 2 })
+      const first = pending()
+      const second = pending()
+
+      const calls = [breaker.execute(first.call), breaker.execute(second.call)]
+      const rejected = await breaker.execute(succeed)
+      first.release()
+      second.release()
+      await Promise.all(calls)
+
+      expect(Result.isErr(rejected) && rejected.error.status).toBe(503)
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should not let a call from before the trip close the circuit', async () => {
+      const breaker = new CircuitBreaker({ name: 'db', failureThreshold: 1 })
+      const slow = pending()
+
+      const inFlight = breaker.execute(slow.call)
+      await breaker.execute(fail)
+      slow.release()
+      await inFlight
+
+      expect(breaker.state).toBe('open')
+      expect(breaker.status().lastSuccess).not.toBeNull()
+    })
+  })
+
+  describe('Sliding Window', () => {
+    /** A call that takes `ms` on the test clock */
+    const taking =
+      (time: ReturnType<typeof clock>, ms: number, ok = true) =>
+      async () => {
+        time.advance(ms)
+        return ok ? Result.ok('answer') : Result.err(Errors.internal('dependency down'))
+      }
+
+    it('should trip on a failure rate that never produces a run of failures', async () => {
+      const breaker = new CircuitBreaker({
+        name: 'ai',
+        failureThreshold: 3,
+        window: { type: 'count', size: 10, minimumCalls: 10, failureRateThreshold: 0.5 },
+      })
+
+      // 60% failures, never two in a row: the consecutive policy would never trip
+      for (const ok of [false, true, false, true, false, true, false, true, false, false]) {
+        expect(breaker.state).toBe('closed')
+        await breaker.execute(ok ? succeed : fail)
+      }
+
+      expect(breaker.state).toBe('open')
+      expect(breaker.status().window).toEqual({
+        type: 'count',
+        size: 10,
+        minimumCalls: 10,
+        calls: 10,
+        failedCalls: 6,
+        slowCalls: 0,
+        failureRate: 0.6,
+        slowCallRate: 0,
+      })
+    })
+
+    it('should wait for the minimum number of calls', async () => {
+      const breaker = new CircuitBreaker({
+        name: 'ai',
+        window: { type: 'count', size: 10, minimumCalls: 5 },
+      })
+
+      await failTimes(breaker, 4)
+      expect(breaker.state).toBe('closed')
+      expect(breaker.status().window?.failureRate).toBe(1)
+      await failTimes(breaker, 1)
+      expect(breaker.state).toBe('open')
+    })
+
+    it('should only count the last N calls', async () => {
+      const breaker = new CircuitBreaker({
+        name: 'ai',
+        window: { type: 'count', size: 4, minimumCalls: 4, failureRateThreshold: 0.75 },
+      })
+
+      for (const ok of [false, false, true, true, true, false])
+        await breaker.execute(ok ? succeed : fail)
+
+      expect(breaker.status().window).toMatchObject({ calls: 4, failedCalls: 1, failureRate: 0.25 })
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should drop calls older than a time window', async () => {
+      const time = clock()
+      const breaker = new CircuitBreaker(
+        { name: 'ai', window: { type: 'time', size: 10_000, minimumCalls: 3 } },
+        time.now
+      )
+
+      await failTimes(breaker, 2)
+      time.advance(11_000)
+      await breaker.execute(fail)
+      await breaker.execute(succeed)
+
+      expect(breaker.status().window).toMatchObject({ calls: 2, failedCalls: 1 })
+      expect(breaker.state).toBe('closed')
+    })
+
+    it('should trip on slow calls and report the slow-call rate', async () => {
+      const time = clock()
+      const breaker = new CircuitBreaker(
+        {
+          name: 'ai',
+          window: {
+            type: 'time',
+            size: 60_000,
+            minimumCalls: 4,
+            slowCallRateThreshold: 0.75,
+            slowCallDuration: 1000,
+          },
+        },
+        time.now
+      )
+
+      await breaker.execute(taking(time, 10))
+      for (let i = 0; i < 3; i++) await breaker.execute(taking(time, 1500))
+
+      expect(breaker.state).toBe('open')
+      expect(breaker.status().window).toMatchObject({ calls: 4, slowCalls: 3, slowCallRate: 0.75 })
+    })
+
+    it('should keep the tripping window on record while open and start afresh when closed', async () => {
+      const time = clock()
+      const breaker = new CircuitBreaker(
+        {
+          name: 'ai',
+          resetTimeout: 30_000,
+          window: { type: 'time', size: 10_000, minimumCalls: 2 },
+        },
+        time.now
+      )
+      const changes: CircuitStateChange[] = []
+      breaker.on('stateChange', (change) => changes.push(change))
+
+      await failTimes(breaker, 2)
+      time.advance(30_000)
+
+      expect(breaker.status()).toMatchObject({
+        state: 'half-open',
+        window: { calls: 2, failureRate: 1 },
+      })
+      expect(changes[0].window).toMatchObject({ calls: 2, failedCalls: 2 })
+
+      await breaker.execute(succeed)
+      expect(breaker.status()).toMatchObject({
+        state: 'closed',
+        window: { calls: 0, failureRate: 0 },
+      })
+    })
+
+    it('should reopen on a slow trial call', async () => {
+      const time = clock()
+      const breaker = new CircuitBreaker(
+        {
+          name: 'ai',
+          resetTimeout: 1000,
+          window: { type: 'count', size: 2, minimumCalls: 1, slowCallDuration: 500 },
+        },
+        time.now
+      )
+      await failTimes(breaker, 1)
+      time.advance(1000)
+
+      await breaker.execute(taking(time, 600))
+
+      expect(breaker.state).toBe('open')
+    })
+
+    it('should hold exactly the outcomes of the last N calls', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.integer({ min: 1, max: 8 }),
+          fc.array(fc.boolean(), { maxLength: 40 }),
+          async (size, outcomes) => {
+            const breaker = new CircuitBreaker({
+              name: 'ai',
+              window: { type: 'count', size, minimumCalls: size + 1 },
+            })
+            for (const ok of outcomes) await breaker.execute(ok ? succeed : fail)
+
+            const window = breaker.status().window!
+            const recent = outcomes.slice(-size)
+            expect(window.calls).toBe(recent.length)
+            expect(window.failedCalls).toBe(recent.filter((ok) => !ok).length)
+            expect(window.failureRate).toBeGreaterThanOrEqual(0)
+            expect(window.failureRate).toBeLessThanOrEqual(1)
+          }
+        )
+      )
+    })
+  })
+
+  describe('Events', () => {
+    it('should emit each transition', async () => {
+      const time = clock(1_700_000_000_000)
+      const breaker = new CircuitBreaker(
+        { name: 'db', failureThreshold: 2, resetTimeout: 1000 },
+        time.now
+      )
+      const changes: CircuitStateChange[] = []
+      breaker.on('stateChange', (change) => changes.push(change))
+
+      await failTimes(breaker, 2)
+      time.advance(1000)
+      await breaker.execute(succeed)
+
+      expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+        'closed->open',
+        'open->half-open',
+        'half-open->closed',
+      ])
+      expect(changes[0]).toEqual({
+        name: 'db',
+        from: 'closed',
+        to: 'open',
+        at: 1_700_000_000_000,
+        failures: 2,
+      })
+    })
+  })
+
+  describe('Wrap and Reset', () => {
+    it('should guard a function with its arguments', async () => {
+      const breaker = new CircuitBreaker({ name: 'ai' })
+      const double = breaker.wrap(async (value: number) => Result.ok(value * 2))
+
+      expect(await double(21)).toEqual(Result.ok(42))
+    })
+
+    it('should reset to closed and forget its history', async () => {
+      const breaker = new CircuitBreaker({ name: 'db', failureThreshold: 1 })
+      await failTimes(breaker, 1)
+
+      breaker.reset()
+
+      expect(breaker.status()).toMatchObject({ state: 'closed', failures: 0, lastFailure: null })
+    })
+
+    it('should report ISO 8601 timestamps', async () => {
+      const breaker = new CircuitBreaker({ name: 'db' })
+      await breaker.execute(fail)
+      await breaker.execute(succeed)
+
+      const status = breaker.status()
+      expect(status.lastFailure).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/)
+      expect(status.lastSuccess).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/)
+    })
+  })
+
+  describe('Properties', () => {
+    it('should open exactly when a run of failures reaches the threshold', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.integer({ min: 1, max: 5 }),
+          fc.array(fc.boolean(), { maxLength: 30 }),
+          async (threshold, outcomes) => {
+            const breaker = new CircuitBreaker({ name: 'db', failureThreshold: threshold }, () => 0)
+            let run = 0
+            let tripped = false
+            for (const ok of outcomes) {
+              if (tripped) break
+              await breaker.execute(ok ? succeed : fail)
+              run = ok ? 0 : run + 1
+              tripped = run >= threshold
+            }
+
+            expect(breaker.state).toBe(tripped ? 'open' : 'closed')
+          }
+        )
+      )
+    })
+  })
+})
@@ -0,0 +1,75 @@
+import { secureInquiryRequestSchema } from '../src/models/inquiry'
+import { sanitizeConversation } from '../src/services/conversation'
+import { TokenVault } from '../src/services/tokenVault'
+
+describe('Conversation Sanitizer', () => {
+  const conversation = [
+    { role: 'system' as const, content: 'You are a support agent.' },
+    { role: 'user' as const, content: 'My email is jane@example.com' },
+    { role: 'assistant' as const, content: 'Thanks, I will write to jane@example.com.' },
+    { role: 'user' as const, content: 'Also cc bob@example.com, not jane@example.com' },
+  ]
+
+  it('should sanitize every turn and keep tokens consistent across turns', () => {
+    const vault = new TokenVault()
+    const result = sanitizeConversation(conversation, { tokenVault: vault })
+
+    expect(result.messages).toEqual([
+      { role: 'system', content: 'You are a support agent.' },
+      { role: 'user', content: 'My email is <EMAIL_1>' },
+      { role: 'assistant', content: 'Thanks, I will write to <EMAIL_1>.' },
+      { role: 'user', content: 'Also cc <EMAIL_2>, not <EMAIL_1>' },
+    ])
+    expect(vault.size).toBe(2)
+    expect(result.redactedItems).toEqual([{ type: 'EMAIL', count: 4, strategy: 'tokenize' }])
+  })
+
+  it('should keep per-turn detections with offsets into each turn', () => {
+    const result = sanitizeConversation(conversation)
+
+    expect(result.turns.map((turn) => turn.spans.length)).toEqual([0, 1, 1, 2])
+    expect(result.turns[1].spans[0]).toMatchObject({ type: 'EMAIL', start: 12, end: 28 })
+  })
+
+  describe('Request Shape', () => {
+    it('should accept exactly one of message or messages', () => {
+      const base = { userId: 'user-1' }
+
+      expect(secureInquiryRequestSchema.safeParse({ ...base, message: 'hi' }).success).toBe(true)
+      expect(
+        secureInquiryRequestSchema.safeParse({ ...base, messages: conversation }).success
+      ).toBe(true)
+      expect(secureInquiryRequestSchema.safeParse(base).success).toBe(false)
+      expect(
+        secureInquiryRequestSchema.safeParse({ ...base, message: 'hi', messages: conversation })
+          .success
+      ).toBe(false)
+    })
+
+    it('should reject conversations without a user turn or with unknown roles', () => {
+      const parse = (messages: unknown) =>
+        secureInquiryRequestSchema.safeParse({ userId: 'user-1', messages }).success
+
+      expect(parse([{ role: 'system', content: 'Be brief.' }])).toBe(false)
+      expect(parse([{ role: 'tool', content: 'result' }])).toBe(false)
+    })
+
+    it('should reject oversized and deeply nested context without throwing', () => {
+      const parse = (context: unknown) =>
+        secureInquiryRequestSchema.safeParse({ userId: 'user-1', message: 'hi', context })
+
+      const wide = parse({ items: Array.from({ length: 200_000 }, () => [0]) })
+      let nested: unknown = 'leaf'
+      for (let level = 0; level < 20; level++) nested = { nested }
+      const deep = parse(nested)
+
+      expect(wide.success).toBe(false)
+      expect(wide.error?.issues.map((issue) => issue.message)).toEqual([
+        'context must not exceed 50000 characters as JSON',
+      ])
+      expect(deep.error?.issues.map((issue) => issue.message)).toEqual([
+        'context must not nest deeper than 16 levels',
+      ])
+    })
+  })
+})
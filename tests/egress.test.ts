@@ -0,0 +1,61 @@
+import type { TenantPolicy } from '../src/models/policy'
+import { sanitizeAnswer } from '../src/services/egress'
+import { resolvePolicy, TenantPolicyStore } from '../src/services/policy'
+import { sanitize } from '../src/services/sanitizer'
+import { TokenVault } from '../src/services/tokenVault'
+
+const defaults = { strategies: {} }
+
+describe('Egress Sanitization', () => {
+  it('should redact PII the AI answer introduces and report it separately', () => {
+    const policy = resolvePolicy(undefined, { strategies: { CREDIT_CARD: 'partial' } })
+    const result = sanitizeAnswer(
+      'Contact billing@example.com and quote card 4111 1111 1111 1111.',
+      policy
+    )
+
+    expect(result.redactedMessage).toBe(
+      'Contact <REDACTED: EMAIL> and quote card **** **** **** 1111.'
+    )
+    expect(result.redactedItems).toEqual([
+      { type: 'EMAIL', count: 1, strategy: 'redact' },
+      { type: 'CREDIT_CARD', count: 1, strategy: 'partial', brands: ['VISA'] },
+    ])
+    expect(result.withheldTypes).toEqual([])
+  })
+
+  it('should report withhold triggers only for types the answer contains', () => {
+    const policy = resolvePolicy(undefined, defaults, [], ['SECRET', 'SSN'])
+
+    expect(sanitizeAnswer('Your SSN is 123-45-6789', policy).withheldTypes).toEqual(['SSN'])
+    expect(sanitizeAnswer('Email a@example.com', policy).withheldTypes).toEqual([])
+  })
+
+  it('should let a tenant policy replace the gateway withhold types', () => {
+    const store = new TenantPolicyStore()
+    const policy: TenantPolicy = { tenantId: 'acme', rules: {}, withhold: ['EMAIL'] }
+    store.replace([policy])
+
+    const resolved = resolvePolicy('acme', defaults, [], ['SSN'], store)
+
+    expect(resolved.withholdTypes).toEqual(['EMAIL'])
+    expect(sanitizeAnswer('SSN 123-45-6789', resolved).withheldTypes).toEqual([])
+    expect(sanitizeAnswer('Write to a@example.com', resolved).withheldTypes).toEqual(['EMAIL'])
+  })
+
+  it('should leave vault tokens for rehydration while redacting new PII', () => {
+    const vault = new TokenVault()
+    const inquiry = sanitize('My email is me@example.com', { tokenVault: vault })
+    const policy = resolvePolicy(undefined, defaults)
+
+    const result = sanitizeAnswer(
+      `We will write to ${inquiry.redactedMessage.slice(12)}, cc admin@example.com`,
+      policy
+    )
+
+    expect(result.redactedItems).toEqual([{ type: 'EMAIL', count: 1, strategy: 'redact' }])
+    expect(vault.rehydrate(result.redactedMessage)).toBe(
+      'We will write to me@example.com, cc <REDACTED: EMAIL>'
+    )
+  })
+})
@@ -0,0 +1,157 @@
+import * as fs from 'fs/promises'
+import * as path from 'path'
+
+import type { CorpusSample } from '../src/models/evaluation'
+import { evaluationBaselineSchema } from '../src/models/evaluation'
+import {
+  compareToBaseline,
+  evaluate,
+  formatReport,
+  parseCorpus,
+  toBaseline,
+} from '../src/services/evaluation'
+
+const samples: CorpusSample[] = [
+  // Hit: the email is found where expected
+  { id: 'hit', text: 'Mail a@example.com', spans: [{ start: 5, end: 18, type: 'EMAIL' }] },
+  // Miss: a bare last-four is not an SSN to the detectors
+  { id: 'miss', text: 'SSN ends in 6789', spans: [{ start: 12, end: 16, type: 'SSN' }] },
+  // False positive: a Luhn-valid serial number reads as a card
+  { id: 'serial', text: 'Serial 4111 1111 1111 1111', spans: [] },
+]
+
+describe('Sanitizer Evaluation', () => {
+  describe('Corpus Parsing', () => {
+    it('should parse JSONL and skip blank lines', () => {
+      const jsonl = samples.map((sample) => JSON.stringify(sample)).join('\n\n')
+      expect(parseCorpus(`${jsonl}\n`)).toEqual({ ok: true, value: samples })
+    })
+
+    it('should name the line of an invalid sample', () => {
+      const jsonl = [
+        JSON.stringify(samples[0]),
+        JSON.stringify({ text: 'short', spans: [{ start: 0, end: 9, type: 'EMAIL' }] }),
+      ].join('\n')
+
+      const result = parseCorpus(jsonl)
+
+      expect(result.ok).toBe(false)
+      if (!result.ok) {
+        expect(result.error.status).toBe(422)
+        expect(result.error.message).toMatch(/^Corpus line 2/)
+      }
+    })
+
+    it('should reject malformed JSON', () => {
+      const result = parseCorpus('{"text": ')
+      expect(result.ok).toBe(false)
+      if (!result.ok) expect(result.error.message).toMatch(/^Corpus line 1:/)
+    })
+  })
+
+  describe('Metrics', () => {
+    it('should score each type and the micro average', () => {
+      const report = evaluate(samples)
+
+      expect(report.samples).toBe(3)
+      expect(report.types).toEqual([
+        {
+          type: 'CREDIT_CARD',
+          truePositives: 0,
+          falsePositives: 1,
+          falseNegatives: 0,
+          precision: 0,
+          recall: 1,
+          f1: 0,
+        },
+        {
+          type: 'EMAIL',
+          truePositives: 1,
+          falsePositives: 0,
+          falseNegatives: 0,
+          precision: 1,
+          recall: 1,
+          f1: 1,
+        },
+        {
+          type: 'SSN',
+          truePositives: 0,
+          falsePositives: 0,
+          falseNegatives: 1,
+          precision: 1,
+          recall: 0,
+          f1: 0,
+        },
+      ])
+      expect(report.overall).toMatchObject({ type: 'ALL', precision: 0.5, recall: 0.5, f1: 0.5 })
+    })
+
+    it('should list the worst false positives and negatives', () => {
+      const report = evaluate(samples)
+
+      expect(report.falsePositives).toEqual([
+        expect.objectContaining({ sample: 'serial', type: 'CREDIT_CARD', start: 7, end: 26 }),
+      ])
+      expect(report.falseNegatives).toEqual([
+        { sample: 'miss', type: 'SSN', start: 12, end: 16, text: '6789' },
+      ])
+    })
+
+    it('should credit each expected span once', () => {
+      const twice: CorpusSample = {
+        text: 'a@example.com b@example.com',
+        spans: [{ start: 0, end: 27, type: 'EMAIL' }],
+      }
+
+      expect(evaluate([twice]).types[0]).toMatchObject({ truePositives: 1, falsePositives: 1 })
+    })
+
+    it('should count a detection of the wrong type as both errors', () => {
+      const mislabeled: CorpusSample = {
+        text: 'Mail a@example.com',
+        spans: [{ start: 5, end: 18, type: 'PHONE' }],
+      }
+
+      expect(evaluate([mislabeled]).overall).toMatchObject({
+        truePositives: 0,
+        falsePositives: 1,
+        falseNegatives: 1,
+      })
+    })
+
+    it('should render a table with an overall row', () => {
+      const table = formatReport(evaluate(samples))
+
+      expect(table).toMatch(/^TYPE\s+TP\s+FP\s+FN\s+PRECISION\s+RECALL\s+F1$/m)
+      expect(table).toMatch(/^ALL\s+1\s+1\s+1\s+0\.5000\s+0\.5000\s+0\.5000$/m)
+      expect(table).toContain('Worst false negatives:')
+    })
+  })
+
+  describe('Baseline', () => {
+    it('should pass against its own snapshot and report drops', () => {
+      const report = evaluate(samples)
+      const baseline = toBaseline(report)
+
+      expect(compareToBaseline(report, baseline)).toEqual([])
+
+      baseline.EMAIL.recall = 1
+      baseline.SSN.recall = 0.5
+      expect(compareToBaseline(report, baseline)).toEqual([
+        'SSN recall 0.0000 is below baseline 0.5000',
+      ])
+      expect(compareToBaseline(report, baseline, 0.5)).toEqual([])
+    })
+
+    it('should keep the shipped corpus at or above the shipped baseline', async () => {
+      const dataDir = path.join(__dirname, '..', 'data')
+      const corpus = parseCorpus(await fs.readFile(path.join(dataDir, 'pii-corpus.jsonl'), 'utf8'))
+      const baseline = evaluationBaselineSchema.parse(
+        JSON.parse(await fs.readFile(path.join(dataDir, 'pii-baseline.json'), 'utf8'))
+      )
+
+      expect(corpus.ok).toBe(true)
+      if (corpus.ok) expect(compareToBaseline(evaluate(corpus.value), baseline)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import * as fc from 'fast-check'
+
+import { sanitizeJson } from '../src/services/jsonSanitizer'
+import { TokenVault } from '../src/services/tokenVault'
+
+describe('JSON Sanitizer', () => {
+  it('should sanitize string leaves at any depth and report them by JSON pointer', () => {
+    const result = sanitizeJson({
+      form: { notes: 'Reach me at jane@example.com', tags: ['vip', 'SSN 123-45-6789'] },
+      tool: { name: 'lookup', args: { 'a/b': 'card 4111 1111 1111 1111', limit: 5 } },
+    })
+
+    expect(result.value).toEqual({
+      form: { notes: 'Reach me at <REDACTED: EMAIL>', tags: ['vip', 'SSN <REDACTED: SSN>'] },
+      tool: { name: 'lookup', args: { 'a/b': 'card <REDACTED: CREDIT_CARD>', limit: 5 } },
+    })
+    expect(result.detections.map((detection) => detection.path)).toEqual([
+      '/form/notes',
+      '/form/tags/1',
+      '/tool/args/a~1b',
+    ])
+    expect(result.detections[0].spans![0]).toMatchObject({ type: 'EMAIL', start: 12, end: 28 })
+    expect(result.redactedItems).toEqual([
+      { type: 'EMAIL', count: 1, strategy: 'redact' },
+      { type: 'SSN', count: 1, strategy: 'redact' },
+      { type: 'CREDIT_CARD', count: 1, strategy: 'redact', brands: ['VISA'] },
+    ])
+  })
+
+  it('should redact values under sensitive keys whatever they hold', () => {
+    const result = sanitizeJson({
+      user: { Email: 'not an address', DOB: '1990-01-01', ssn: { last4: '6789' }, name: 'Jo' },
+      contacts: [{ email: 'a@example.com' }, { email: null }],
+    })
+
+    expect(result.value).toEqual({
+      user: {
+        Email: '<REDACTED: EMAIL>',
+        DOB: '<REDACTED: DOB>',
+        ssn: '<REDACTED: SSN>',
+        name: 'Jo',
+      },
+      contacts: [{ email: '<REDACTED: EMAIL>' }, { email: null }],
+    })
+    expect(result.detections).toEqual([
+      { path: '/user/Email', sensitiveKey: 'Email' },
+      { path: '/user/DOB', sensitiveKey: 'DOB' },
+      { path: '/user/ssn', sensitiveKey: 'ssn' },
+      { path: '/contacts/0/email', sensitiveKey: 'email' },
+    ])
+    expect(result.redactedItems).toEqual([
+      { type: 'EMAIL', count: 2, strategy: 'redact' },
+      { type: 'CUSTOM', label: 'DOB', count: 1, strategy: 'redact' },
+      { type: 'SSN', count: 1, strategy: 'redact' },
+    ])
+  })
+
+  it('should share tokens with the message when given the same vault', () => {
+    const vault = new TokenVault()
+    vault.tokenize('EMAIL', 'jane@example.com')
+
+    const result = sanitizeJson(
+      { email: 'jane@example.com', note: 'cc jane@example.com', date_of_birth: '1990-01-01' },
+      { tokenVault: vault, sensitiveKeys: ['email', 'dateOfBirth'] }
+    )
+
+    expect(result.value).toEqual({
+      email: '<EMAIL_1>',
+      note: 'cc <EMAIL_1>',
+      date_of_birth: '<DATEOFBIRTH_1>',
+    })
+    expect(vault.rehydrate(JSON.stringify(result.value))).toContain('"1990-01-01"')
+  })
+
+  it('should apply the allow and masking policy to values under sensitive keys', () => {
+    const result = sanitizeJson(
+      { email: 'jane@example.com', ssn: '123-45-6789', dob: '1990-01-01' },
+      { allowTypes: ['SSN'], masking: { strategies: { EMAIL: 'partial' } } }
+    )
+
+    expect(result.value).toEqual({
+      email: '***@example.com',
+      ssn: '123-45-6789',
+      dob: '<REDACTED: DOB>',
+    })
+    expect(result.redactedItems).toEqual([
+      { type: 'EMAIL', count: 1, strategy: 'partial' },
+      { type: 'SSN', count: 1, strategy: 'none' },
+      { type: 'CUSTOM', label: 'DOB', count: 1, strategy: 'redact' },
+    ])
+  })
+
+  it('should keep the shape and every non-string leaf of any JSON value', () => {
+    fc.assert(
+      fc.property(fc.jsonValue(), (value) => {
+        const result = sanitizeJson(value, { sensitiveKeys: [] })
+        const strip = (node: unknown): unknown =>
+          typeof node === 'string'
+            ? ''
+            : Array.isArray(node)
+              ? node.map(strip)
+              : node !== null && typeof node === 'object'
+                ? Object.fromEntries(Object.entries(node).map(([k, v]) => [k, strip(v)]))
+                : node
+
+        expect(strip(result.value)).toEqual(strip(value))
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
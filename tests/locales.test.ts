@@ -0,0 +1,78 @@
+import type { LocalePack } from '../src/models/contracts'
+import type { TenantPolicy } from '../src/models/policy'
+import { resolvePolicy, TenantPolicyStore } from '../src/services/policy'
+import { sanitize } from '../src/services/sanitizer'
+import { clabeCheck, curpCheck, rfcCheck, spanishIdCheck } from '../src/utils/checksum'
+
+describe('Locale Packs', () => {
+  describe('National Identifiers', () => {
+    const cases: [LocalePack, string, string, string][] = [
+      ['mx', 'MX_CURP', 'HEGG560427MVZRRL04', 'HEGG560427MVZRRL05'],
+      ['mx', 'MX_RFC', 'GODE561231GR8', 'GODE561231GR9'],
+      ['mx', 'MX_RFC', 'MAG041126GT8', 'MAG041126GT9'],
+      ['mx', 'MX_CLABE', '002010077777777771', '002010077777777772'],
+      ['ca', 'CA_SIN', '130 692 544', '130 692 543'],
+      ['uk', 'UK_NINO', 'AB 12 34 56 C', 'QQ 12 34 56 C'],
+      ['es', 'ES_DNI', '12345678Z', '12345678A'],
+      ['es', 'ES_NIE', 'X1234567L', 'X1234567A'],
+    ]
+
+    it.each(cases)('should redact a valid %s %s as its own type', (locale, type, valid) => {
+      const result = sanitize(`My id is ${valid}, thanks`, { locales: [locale] })
+
+      expect(result.redactedMessage).toBe(`My id is <REDACTED: ${type}>, thanks`)
+      expect(result.redactedItems).toEqual([{ type, count: 1, strategy: 'redact' }])
+    })
+
+    it.each(cases)('should ignore a %s %s that fails validation', (locale, type, _, invalid) => {
+      const result = sanitize(`My id is ${invalid}, thanks`, { locales: [locale] })
+
+      expect(result.redactedItems.find((item) => item.type === type)).toBeUndefined()
+    })
+
+    it('should accept lowercase and separated forms', () => {
+      const result = sanitize('curp hegg560427mvzrrl04, dni 12345678-z', { locales: ['mx', 'es'] })
+      expect(result.redactedMessage).toBe('curp <REDACTED: MX_CURP>, dni <REDACTED: ES_DNI>')
+    })
+  })
+
+  describe('Switching Packs', () => {
+    it('should detect no national identifiers unless their pack is enabled', () => {
+      const message = 'CURP HEGG560427MVZRRL04, DNI 12345678Z'
+      expect(sanitize(message).redactedMessage).toBe(message)
+      expect(sanitize(message, { locales: ['es'] }).redactedMessage).toBe(
+        'CURP HEGG560427MVZRRL04, DNI <REDACTED: ES_DNI>'
+      )
+    })
+
+    it('should claim 9-digit numbers as SINs before the SSN detector when ca is on', () => {
+      expect(sanitize('number 130692544').redactedItems[0].type).toBe('SSN')
+      expect(sanitize('number 130692544', { locales: ['ca'] }).redactedItems[0].type).toBe('CA_SIN')
+    })
+
+    it('should let a tenant policy replace the gateway packs', () => {
+      const store = new TenantPolicyStore()
+      const policy: TenantPolicy = { tenantId: 'mx-bank', rules: {}, locales: ['mx'] }
+      store.replace([policy])
+
+      expect(resolvePolicy('mx-bank', { strategies: {} }, ['es'], [], store).locales).toEqual([
+        'mx',
+      ])
+      expect(resolvePolicy('other', { strategies: {} }, ['es'], [], store).locales).toEqual(['es'])
+    })
+  })
+
+  describe('Checksums', () => {
+    it('should validate CURP, RFC, CLABE and DNI/NIE check characters', () => {
+      expect(curpCheck('HEGG560427MVZRRL04')).toBe(true)
+      expect(curpCheck('HEGG560427MVZRRL07')).toBe(false)
+      expect(rfcCheck('GODE561231GR8')).toBe(true)
+      expect(rfcCheck('GODE561231GRA')).toBe(false)
+      expect(clabeCheck('032180000118359719')).toBe(true)
+      expect(clabeCheck('032180000118359718')).toBe(false)
+      expect(spanishIdCheck('Y1234567X')).toBe(true)
+      expect(spanishIdCheck('Z1234567R')).toBe(true)
+      expect(spanishIdCheck('Z1234567T')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,93 @@
+import * as fc from 'fast-check'
+
+import { applyMask } from '../src/services/masking'
+import { sanitize } from '../src/services/sanitizer'
+import { TokenVault } from '../src/services/tokenVault'
+
+const HMAC_KEY = '0123456789abcdef0123456789abcdef0123456789abcdef0123456789abcdef'
+const OTHER_KEY = 'fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210'
+
+describe('Masking Strategies', () => {
+  describe('Default', () => {
+    it('should fully redact types without a configured strategy', () => {
+      const result = sanitize('Email a@example.com, SSN 123-45-6789', {
+        masking: { strategies: { EMAIL: 'partial' } },
+      })
+
+      expect(result.redactedMessage).toBe('Email ***@example.com, SSN <REDACTED: SSN>')
+      expect(result.redactedItems).toEqual([
+        { type: 'EMAIL', count: 1, strategy: 'partial' },
+        { type: 'SSN', count: 1, strategy: 'redact' },
+      ])
+    })
+  })
+
+  describe('Partial', () => {
+    it('should keep the last four digits of a card and its separators', () => {
+      expect(applyMask('CREDIT_CARD', '4242 4242 4242 4242', 'partial')).toBe('**** **** **** 4242')
+      expect(applyMask('CREDIT_CARD', '4242-4242-4242-4242', 'partial')).toBe('****-****-****-4242')
+    })
+
+    it("should keep an email's domain", () => {
+      expect(applyMask('EMAIL', 'john.doe@example.com', 'partial')).toBe('***@example.com')
+    })
+
+    it('should keep the last four characters of other identifiers', () => {
+      expect(applyMask('SSN', '123-45-6789', 'partial')).toBe('***-**-6789')
+    })
+  })
+
+  describe('Hash', () => {
+    it('should produce the same pseudonym for the same value across messages', () => {
+      const masking = { strategies: { EMAIL: 'hash' as const }, hmacKey: HMAC_KEY }
+      const first = sanitize('From Alice@Example.com', { masking })
+      const second = sanitize('Reply to alice@example.com', { masking })
+
+      const pseudonym = first.redactedMessage.replace('From ', '')
+      expect(pseudonym).toMatch(/^<EMAIL:[0-9a-f]{12}>$/)
+      expect(second.redactedMessage).toBe(`Reply to ${pseudonym}`)
+      expect(first.redactedItems).toEqual([{ type: 'EMAIL', count: 1, strategy: 'hash' }])
+    })
+
+    it('should depend on the key', () => {
+      expect(applyMask('EMAIL', 'a@example.com', 'hash', HMAC_KEY)).not.toBe(
+        applyMask('EMAIL', 'a@example.com', 'hash', OTHER_KEY)
+      )
+    })
+
+    it('should require a key', () => {
+      expect(() => applyMask('EMAIL', 'a@example.com', 'hash')).toThrow(/HMAC key/)
+    })
+  })
+
+  describe('Format-preserving', () => {
+    it('should keep the shape of the original value', () => {
+      fc.assert(
+        fc.property(fc.stringMatching(/^\d{3}-\d{2}-\d{4}$/), (ssn) => {
+          const masked = applyMask('SSN', ssn, 'format-preserving', HMAC_KEY)
+
+          expect(masked).toMatch(/^\d{3}-\d{2}-\d{4}$/)
+          expect(applyMask('SSN', ssn, 'format-preserving', HMAC_KEY)).toBe(masked)
+        }),
+        { numRuns: 50 }
+      )
+    })
+
+    it('should keep email structure and letter case', () => {
+      const masked = applyMask('EMAIL', 'John.Doe@example.com', 'format-preserving', HMAC_KEY)
+      expect(masked).toMatch(/^[A-Z][a-z]{3}\.[A-Z][a-z]{2}@[a-z]{7}\.[a-z]{3}$/)
+    })
+  })
+
+  describe('Tokenization', () => {
+    it('should override configured strategies when a token vault is used', () => {
+      const result = sanitize('a@example.com', {
+        tokenVault: new TokenVault(),
+        masking: { strategies: { EMAIL: 'partial' } },
+      })
+
+      expect(result.redactedMessage).toBe('<EMAIL_1>')
+      expect(result.redactedItems).toEqual([{ type: 'EMAIL', count: 1, strategy: 'tokenize' }])
+    })
+  })
+})
@@ -0,0 +1,227 @@
+import * as fs from 'fs/promises'
+import * as os from 'os'
+import * as path from 'path'
+
+import type { TenantPolicy } from '../src/models/policy'
+import {
+  authorizedTenant,
+  enforcePolicy,
+  findViolation,
+  loadTenantPolicies,
+  resolvePolicy,
+  TenantPolicyStore,
+} from '../src/services/policy'
+import { sanitize } from '../src/services/sanitizer'
+import { TokenVault } from '../src/services/tokenVault'
+
+const hmacKey = 'ab'.repeat(32)
+
+const acme: TenantPolicy = {
+  tenantId: 'acme',
+  rules: { EMAIL: 'allow', CREDIT_CARD: 'mask', SSN: 'block' },
+}
+
+function storeWith(...policies: TenantPolicy[]): TenantPolicyStore {
+  const store = new TenantPolicyStore()
+  store.replace(policies)
+  return store
+}
+
+describe('Tenant Policies', () => {
+  describe('Resolution', () => {
+    it('should fall back to the gateway masking config for unknown tenants', () => {
+      const resolved = resolvePolicy('unknown', { strategies: { EMAIL: 'hash' }, hmacKey })
+
+      expect(resolved.tenantId).toBeNull()
+      expect(resolved.masking.strategies.EMAIL).toBe('hash')
+      expect(resolved.masking.strategies.SSN).toBe('redact')
+      expect(resolved.allowTypes).toEqual([])
+      expect(resolved.blockTypes).toEqual([])
+    })
+
+    it('should map each rule to its action', () => {
+      const resolved = resolvePolicy('acme', { strategies: {} }, [], [], storeWith(acme))
+
+      expect(resolved.tenantId).toBe('acme')
+      expect(resolved.allowTypes).toEqual(['EMAIL'])
+      expect(resolved.blockTypes).toEqual(['SSN'])
+      expect(resolved.masking.strategies.CREDIT_CARD).toBe('partial')
+      expect(resolved.masking.strategies.PHONE).toBe('redact')
+    })
+
+    it('should prefer the tenant masking strategy and default action', () => {
+      const store = storeWith({
+        tenantId: 'globex',
+        rules: { EMAIL: 'redact' },
+        defaultAction: 'mask',
+        masking: { PHONE: 'format-preserving' },
+      })
+      const resolved = resolvePolicy(
+        'globex',
+        { strategies: { EMAIL: 'partial' }, hmacKey },
+        [],
+        [],
+        store
+      )
+
+      expect(resolved.masking.strategies.EMAIL).toBe('redact')
+      expect(resolved.masking.strategies.PHONE).toBe('format-preserving')
+      expect(resolved.masking.strategies.IBAN).toBe('partial')
+    })
+  })
+
+  describe('Tenant Authorization', () => {
+    const lax = storeWith({ tenantId: 'lax', rules: { SSN: 'allow' } })
+    const sanitizeAs = (tenantId: string | undefined) =>
+      sanitize('SSN 123-45-6789', {
+        allowTypes: resolvePolicy(tenantId, { strategies: {} }, [], [], lax).allowTypes,
+      }).redactedMessage
+
+    it('should take the tenant from the authenticated client', () => {
+      expect(authorizedTenant(undefined, 'lax')).toBe('lax')
+      expect(authorizedTenant('lax', 'lax')).toBe('lax')
+      expect(sanitizeAs(authorizedTenant(undefined, 'lax'))).toBe('SSN 123-45-6789')
+    })
+
+    it('should fall back to the strict defaults for a header without authentication', () => {
+      const tenant = authorizedTenant('lax', undefined)
+
+      expect(tenant).toBeUndefined()
+      expect(resolvePolicy(tenant, { strategies: {} }, [], [], lax).tenantId).toBeNull()
+      expect(sanitizeAs(tenant)).toBe('SSN <REDACTED: SSN>')
+    })
+
+    it('should fall back to the strict defaults for a header naming another tenant', () => {
+      const tenant = authorizedTenant('lax', 'acme')
+
+      expect(tenant).toBeUndefined()
+      expect(sanitizeAs(tenant)).toBe('SSN <REDACTED: SSN>')
+    })
+
+    it('should fall back to the strict defaults for an authenticated tenant without a policy', () => {
+      const tenant = authorizedTenant(undefined, 'unknown')
+
+      expect(resolvePolicy(tenant, { strategies: {} }, [], [], lax).tenantId).toBeNull()
+      expect(sanitizeAs(tenant)).toBe('SSN <REDACTED: SSN>')
+    })
+  })
+
+  describe('Sanitizing Under A Policy', () => {
+    it('should leave allowed types in place and still report them', () => {
+      const policy = resolvePolicy('acme', { strategies: {} }, [], [], storeWith(acme))
+      const message = 'Email a@example.com about card 4111 1111 1111 1111'
+      const result = sanitize(message, {
+        masking: policy.masking,
+        allowTypes: policy.allowTypes,
+      })
+
+      expect(result.redactedMessage).toBe('Email a@example.com about card **** **** **** 1111')
+      expect(result.redactedItems).toContainEqual({ type: 'EMAIL', count: 1, strategy: 'none' })
+      expect(result.spans[0]).toMatchObject({ type: 'EMAIL', start: 6, end: 19, strategy: 'none' })
+      expect(enforcePolicy(policy, result).ok).toBe(true)
+    })
+
+    it('should keep allowed values out of the token vault', () => {
+      const vault = new TokenVault()
+      const result = sanitize('a@example.com, SSN 123-45-6789', {
+        tokenVault: vault,
+        allowTypes: ['EMAIL'],
+      })
+
+      expect(result.redactedMessage).toBe('a@example.com, SSN <SSN_1>')
+      expect(vault.size).toBe(1)
+    })
+  })
+
+  describe('Enforcement', () => {
+    it('should reject a message containing a blocked type with a structured 422', () => {
+      const policy = resolvePolicy('acme', { strategies: {} }, [], [], storeWith(acme))
+      const result = sanitize('My SSN is 123-45-6789', {
+        masking: policy.masking,
+        allowTypes: policy.allowTypes,
+      })
+      const enforced = enforcePolicy(policy, result)
+
+      expect(result.redactedMessage).toBe('My SSN is <REDACTED: SSN>')
+      expect(enforced.ok).toBe(false)
+      if (enforced.ok) return
+      expect(enforced.error.toResponse()).toEqual({
+        status: 422,
+        code: 'POLICY_VIOLATION',
+        message: 'Inquiry blocked by policy: SSN is not allowed',
+        details: { tenantId: 'acme', rule: { type: 'SSN', action: 'block' }, count: 1 },
+      })
+    })
+
+    it('should report the violated rule without failing when previewing', () => {
+      const policy = resolvePolicy('acme', { strategies: {} }, [], [], storeWith(acme))
+
+      expect(findViolation(policy, sanitize('SSN 123-45-6789'))).toEqual({
+        tenantId: 'acme',
+        rule: { type: 'SSN', action: 'block' },
+        count: 1,
+      })
+      expect(findViolation(policy, sanitize('Email a@example.com'))).toBeNull()
+    })
+  })
+
+  describe('Provider Preference', () => {
+    it('should carry the tenant provider preference, or none', () => {
+      const store = storeWith({ ...acme, providers: ['azure-eu', 'mock'] })
+
+      expect(resolvePolicy('acme', { strategies: {} }, [], [], store).providers).toEqual([
+        'azure-eu',
+        'mock',
+      ])
+      expect(resolvePolicy('other', { strategies: {} }, [], [], store).providers).toEqual([])
+    })
+  })
+
+  describe('Config File Loading', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'policies-'))
+    })
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true })
+    })
+
+    it('should replace the loaded policies with the file contents', async () => {
+      const file = path.join(dir, 'policies.json')
+      await fs.writeFile(file, JSON.stringify([acme]))
+
+      const store = storeWith({ tenantId: 'stale', rules: {} })
+      const result = await loadTenantPolicies(file, undefined, store)
+
+      expect(result).toEqual({ ok: true, value: 1 })
+      expect(store.list().map((policy) => policy.tenantId)).toEqual(['acme'])
+    })
+
+    it('should reject unknown actions and duplicate tenants', async () => {
+      const file = path.join(dir, 'policies.json')
+      const store = new TenantPolicyStore()
+
+      await fs.writeFile(file, JSON.stringify([{ tenantId: 'acme', rules: { SSN: 'drop' } }]))
+      expect((await loadTenantPolicies(file, undefined, store)).ok).toBe(false)
+
+      await fs.writeFile(file, JSON.stringify([acme, acme]))
+      expect((await loadTenantPolicies(file, undefined, store)).ok).toBe(false)
+      expect(store.list()).toEqual([])
+    })
+
+    it('should reject keyed masking when no HMAC key is configured', async () => {
+      const file = path.join(dir, 'policies.json')
+      await fs.writeFile(
+        file,
+        JSON.stringify([{ tenantId: 'acme', rules: { SSN: 'mask' }, masking: { SSN: 'hash' } }])
+      )
+
+      const result = await loadTenantPolicies(file, undefined, new TenantPolicyStore())
+
+      expect(result.ok).toBe(false)
+      expect((await loadTenantPolicies(file, hmacKey, new TenantPolicyStore())).ok).toBe(true)
+    })
+  })
+})
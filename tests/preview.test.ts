@@ -0,0 +1,131 @@
+// Mock the environment, logger, AI router and audit log - must be before imports
+jest.mock('../src/env', () => ({
+  env: {
+    PREVIEW_RATE_LIMIT: 100,
+    PREVIEW_RATE_WINDOW_MS: 60000,
+    PII_MASKING: {},
+    PII_LOCALES: [],
+    PII_EGRESS_WITHHOLD: [],
+    PII_THRESHOLDS: {},
+  },
+}))
+jest.mock('../src/utils/logger', () => ({
+  __esModule: true,
+  default: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}))
+jest.mock('../src/services/ai/configured', () => ({ aiRouter: { complete: jest.fn() } }))
+jest.mock('../src/services/auditLog', () => ({ writeAuditEntry: jest.fn() }))
+
+import { mkdtemp, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { generateSpec } from 'tsoa'
+
+import { PreviewController } from '../src/controllers/preview'
+import type { SanitizePreviewResponse } from '../src/models/preview'
+import { sanitizePreviewRequestSchema } from '../src/models/preview'
+import { aiRouter } from '../src/services/ai/configured'
+import { writeAuditEntry } from '../src/services/auditLog'
+import { tenantPolicies } from '../src/services/policy'
+import type { AuthRequest } from '../src/utils/authentication'
+
+/** Request as the bearer authentication leaves it for a developer of the tenant */
+const developer = (tenantId?: string) =>
+  ({
+    user: { id: 'dev-1', token_exp: '', roles: ['developer'], ...(tenantId && { tenantId }) },
+  }) as AuthRequest
+
+describe('Sanitize Preview Request', () => {
+  it('should accept a single message or a batch', () => {
+    expect(sanitizePreviewRequestSchema.parse({ message: 'hi' })).toEqual({
+      message: 'hi',
+      mode: 'redact',
+    })
+    expect(
+      sanitizePreviewRequestSchema.safeParse({ messages: ['a', 'b'], mode: 'tokenize' }).success
+    ).toBe(true)
+  })
+
+  it('should require exactly one of message or messages', () => {
+    expect(sanitizePreviewRequestSchema.safeParse({}).success).toBe(false)
+    expect(sanitizePreviewRequestSchema.safeParse({ message: 'a', messages: ['b'] }).success).toBe(
+      false
+    )
+    expect(sanitizePreviewRequestSchema.safeParse({ messages: [] }).success).toBe(false)
+  })
+})
+
+describe('Sanitize Preview Handler', () => {
+  beforeAll(() => {
+    tenantPolicies.replace([{ tenantId: 'acme', rules: { SSN: 'block', EMAIL: 'allow' } }])
+  })
+  afterAll(() => tenantPolicies.replace([]))
+  beforeEach(() => jest.clearAllMocks())
+
+  async function preview(body: object, tenantId?: string): Promise<SanitizePreviewResponse> {
+    const response = await new PreviewController().previewSanitization(
+      body as never,
+      tenantId,
+      developer(tenantId)
+    )
+    if (!response.success) throw new Error(response.error.message)
+    return response.data
+  }
+
+  it('should report a block decision for a message the tenant policy rejects', async () => {
+    const { tenantId, previews } = await preview({ message: 'My SSN is 123-45-6789' }, 'acme')
+
+    expect(tenantId).toBe('acme')
+    expect(previews[0].redactedMessage).toBe('My SSN is <REDACTED: SSN>')
+    expect(previews[0].decision).toEqual({
+      action: 'block',
+      violation: { tenantId: 'acme', rule: { type: 'SSN', action: 'block' }, count: 1 },
+    })
+  })
+
+  it('should return batch previews in input order', async () => {
+    const messages = ['Mail jane@example.com', 'nothing here', 'SSN 123-45-6789']
+
+    const { previews } = await preview({ messages }, 'acme')
+
+    expect(previews.map((entry) => entry.redactedMessage)).toEqual([
+      'Mail jane@example.com',
+      'nothing here',
+      'SSN <REDACTED: SSN>',
+    ])
+    expect(previews.map((entry) => entry.decision.action)).toEqual(['proceed', 'proceed', 'block'])
+  })
+
+  it('should neither call the AI nor write an audit entry', async () => {
+    await preview({ messages: ['SSN 123-45-6789', 'Card 4111 1111 1111 1111'] }, 'acme')
+    await preview({ message: 'Mail jane@example.com', mode: 'tokenize' })
+
+    expect(aiRouter.complete).not.toHaveBeenCalled()
+    expect(writeAuditEntry).not.toHaveBeenCalled()
+  })
+
+  it('should require the developer scope on the route', async () => {
+    const outputDirectory = await mkdtemp(join(tmpdir(), 'preview-spec-'))
+    try {
+      const metadata = await generateSpec({
+        entryFile: 'src/controllers/preview.ts',
+        controllerPathGlobs: ['src/controllers/preview.ts'],
+        noImplicitAdditionalProperties: 'throw-on-extras',
+        outputDirectory,
+        specVersion: 3,
+      })
+      const [controller] = metadata.controllers
+      const [method] = controller.methods
+
+      expect([controller.path, method.path]).toEqual(['sanitize', 'preview'])
+      expect(method.security).toEqual([{ bearer: ['developer'] }])
+    } finally {
+      await rm(outputDirectory, { recursive: true, force: true })
+    }
+  }, 60_000)
+})
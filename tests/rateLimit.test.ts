@@ -0,0 +1,63 @@
+import type { NextFunction, Request, Response } from 'express'
+
+import { AppError, rateLimit, RateLimiter } from '../src/lib'
+
+function clock(start = 0): { now: () => number; advance: (ms: number) => void } {
+  let time = start
+  return { now: () => time, advance: (ms) => (time += ms) }
+}
+
+describe('Rate Limiter', () => {
+  it('should allow requests up to the limit within a window', () => {
+    const time = clock()
+    const limiter = new RateLimiter({ limit: 2, windowMs: 1000 }, time.now)
+
+    expect(limiter.hit('dev-1')).toEqual({ allowed: true, remaining: 1, resetAt: 1000 })
+    expect(limiter.hit('dev-1')).toEqual({ allowed: true, remaining: 0, resetAt: 1000 })
+    expect(limiter.hit('dev-1').allowed).toBe(false)
+
+    time.advance(1000)
+    expect(limiter.hit('dev-1')).toEqual({ allowed: true, remaining: 1, resetAt: 2000 })
+  })
+
+  it('should count each key and each limiter separately', () => {
+    const time = clock()
+    const preview = new RateLimiter({ limit: 1, windowMs: 1000 }, time.now)
+    const inquiry = new RateLimiter({ limit: 1, windowMs: 1000 }, time.now)
+
+    expect(preview.hit('dev-1').allowed).toBe(true)
+    expect(preview.hit('dev-2').allowed).toBe(true)
+    expect(inquiry.hit('dev-1').allowed).toBe(true)
+    expect(preview.hit('dev-1').allowed).toBe(false)
+  })
+
+  describe('Middleware', () => {
+    function call(handler: ReturnType<typeof rateLimit>, ip: string) {
+      const headers: Record<string, unknown> = {}
+      const res = { setHeader: (name: string, value: unknown) => (headers[name] = value) }
+      const next = jest.fn()
+      handler({ ip } as Request, res as unknown as Response, next as NextFunction)
+      return { headers, next }
+    }
+
+    it('should pass requests within the limit and report the remaining budget', () => {
+      const handler = rateLimit(new RateLimiter({ limit: 5, windowMs: 60_000 }))
+      const { headers, next } = call(handler, '10.0.0.1')
+
+      expect(next).toHaveBeenCalledWith()
+      expect(headers['RateLimit-Limit']).toBe(5)
+      expect(headers['RateLimit-Remaining']).toBe(4)
+    })
+
+    it('should reject requests over the limit with a 429 and Retry-After', () => {
+      const handler = rateLimit(new RateLimiter({ limit: 1, windowMs: 60_000 }))
+      call(handler, '10.0.0.1')
+      const { headers, next } = call(handler, '10.0.0.1')
+
+      const error = next.mock.calls[0][0]
+      expect(error).toBeInstanceOf(AppError)
+      expect(error.toResponse()).toMatchObject({ status: 429, code: 'RATE_LIMITED' })
+      expect(headers['Retry-After']).toBe(60)
+    })
+  })
+})
@@ -0,0 +1,170 @@
+import * as fc from 'fast-check'
+
+import { AppError, Errors, Result, RetryBudget, RetryPolicy, type RetryTiming } from '../src/lib'
+
+/** Timing with a manual clock, where sleeping advances the clock */
+function timing(random = () => 0.5): RetryTiming & { sleeps: number[] } {
+  let time = 0
+  const sleeps: number[] = []
+  return {
+    now: () => time,
+    sleep: async (ms) => {
+      sleeps.push(ms)
+      time += ms
+    },
+    random,
+    sleeps,
+  }
+}
+
+const unavailable = () =>
+  new AppError({ status: 503, code: 'SERVICE_UNAVAILABLE', message: 'try later' })
+
+/** Call that fails with the given errors, then answers */
+function flaky(...errors: AppError[]) {
+  return jest.fn(async () => {
+    const error = errors.shift()
+    return error ? Result.err(error) : Result.ok('answer')
+  })
+}
+
+describe('Retry Policy', () => {
+  describe('Backoff', () => {
+    it('should double the backoff cap with each retry up to the maximum', () => {
+      const policy = new RetryPolicy(
+        { baseDelayMs: 100, maxDelayMs: 1000 },
+        timing(() => 0.999999)
+      )
+
+      expect([1, 2, 3, 4, 5].map((retry) => policy.delay(retry))).toEqual([99, 199, 399, 799, 999])
+    })
+
+    it('should keep every delay between 0 and the cap (full jitter)', () => {
+      fc.assert(
+        fc.property(
+          fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+          fc.integer({ min: 1, max: 30 }),
+          (random, retry) => {
+            const policy = new RetryPolicy(
+              { baseDelayMs: 100, maxDelayMs: 2000 },
+              timing(() => random)
+            )
+            const delay = policy.delay(retry)
+            return delay >= 0 && delay < Math.min(2000, 100 * 2 ** (retry - 1))
+          }
+        )
+      )
+    })
+  })
+
+  describe('Execute', () => {
+    it('should retry a retryable error until the call succeeds', async () => {
+      const clock = timing()
+      const call = flaky(unavailable(), unavailable())
+
+      const retried = await new RetryPolicy({ maxAttempts: 3 }, clock).execute(call)
+
+      expect(retried).toEqual({ result: Result.ok('answer'), attempts: 3 })
+      expect(call).toHaveBeenNthCalledWith(3, 3)
+      expect(clock.sleeps).toEqual([50, 100])
+    })
+
+    it('should give up after the maximum number of attempts', async () => {
+      const call = flaky(unavailable(), unavailable(), unavailable())
+
+      const retried = await new RetryPolicy({ maxAttempts: 2 }, timing()).execute(call)
+
+      expect(retried.attempts).toBe(2)
+      expect(Result.isErr(retried.result) && retried.result.error.code).toBe('SERVICE_UNAVAILABLE')
+    })
+
+    it('should not retry an error the classifier rejects', async () => {
+      const call = flaky(Errors.badRequest('bad input'))
+
+      const retried = await new RetryPolicy({}, timing()).execute(call)
+
+      expect(retried.attempts).toBe(1)
+      expect(call).toHaveBeenCalledTimes(1)
+    })
+
+    it('should use a custom classifier', async () => {
+      const call = flaky(Errors.internal('blip'))
+      const policy = new RetryPolicy({ isRetryable: (error) => error.status === 500 }, timing())
+
+      expect((await policy.execute(call)).attempts).toBe(2)
+    })
+
+    it('should not start a retry whose backoff ends past the deadline', async () => {
+      const clock = timing()
+      const call = flaky(unavailable(), unavailable())
+
+      // Backoffs are 50 ms then 100 ms; the second would end at 150 ms
+      const retried = await new RetryPolicy({ maxAttempts: 3 }, clock).execute(call, 120)
+
+      expect(retried.attempts).toBe(2)
+      expect(clock.sleeps).toEqual([50])
+    })
+
+    it('should report each retry before waiting', async () => {
+      const onRetry = jest.fn()
+      const error = unavailable()
+
+      await new RetryPolicy({}, timing()).execute(flaky(error), Infinity, onRetry)
+
+      expect(onRetry).toHaveBeenCalledWith({ attempt: 2, delayMs: 50, error })
+    })
+  })
+
+  describe('Retry Budget', () => {
+    it('should allow retries up to the minimum plus the ratio of requests', () => {
+      const budget = new RetryBudget({ ratio: 0.5, minRetries: 1 }, () => 0)
+      for (let i = 0; i < 4; i++) budget.recordRequest()
+
+      // 1 + 0.5 * 4 = 3 retries
+      expect([1, 2, 3, 4].map(() => budget.tryRetry())).toEqual([true, true, true, false])
+      expect(budget.totals()).toEqual({ requests: 4, retries: 3 })
+    })
+
+    it('should forget requests and retries older than the window', () => {
+      let time = 0
+      const budget = new RetryBudget({ ratio: 0, minRetries: 1, windowMs: 1000 }, () => time)
+      budget.recordRequest()
+      expect(budget.tryRetry()).toBe(true)
+      expect(budget.tryRetry()).toBe(false)
+
+      time = 1000
+
+      expect(budget.totals()).toEqual({ requests: 0, retries: 0 })
+      expect(budget.tryRetry()).toBe(true)
+    })
+
+    it('should stop retries across policies sharing an exhausted budget', async () => {
+      const budget = new RetryBudget({ ratio: 0, minRetries: 1 }, () => 0)
+      const first = new RetryPolicy({ budget }, timing())
+      const second = new RetryPolicy({ budget }, timing())
+
+      expect((await first.execute(flaky(unavailable()))).attempts).toBe(2)
+      expect((await second.execute(flaky(unavailable()))).attempts).toBe(1)
+      expect(budget.totals()).toEqual({ requests: 2, retries: 1 })
+    })
+
+    it('should never let retries exceed the budget under a full outage', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.integer({ min: 1, max: 50 }),
+          fc.double({ min: 0, max: 1, noNaN: true }),
+          async (requests, ratio) => {
+            const budget = new RetryBudget({ ratio, minRetries: 2 }, () => 0)
+            const policy = new RetryPolicy({ maxAttempts: 5, budget }, timing())
+            const down = async () => Result.err(unavailable())
+
+            for (let i = 0; i < requests; i++) await policy.execute(down)
+
+            return budget.totals().retries <= 2 + ratio * requests
+          }
+        ),
+        { numRuns: 50 }
+      )
+    })
+  })
+})
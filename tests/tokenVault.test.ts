@@ -0,0 +1,84 @@
+import * as fc from 'fast-check'
+
+import { sanitize } from '../src/services/sanitizer'
+import { TokenVault } from '../src/services/tokenVault'
+
+const alphaNumChars = 'abcdefghijklmnopqrstuvwxyz0123456789'
+
+const realisticEmail = fc
+  .tuple(
+    fc.array(fc.constantFrom(...alphaNumChars.split('')), { minLength: 3, maxLength: 10 }),
+    fc.array(fc.constantFrom(...alphaNumChars.split('')), { minLength: 3, maxLength: 8 })
+  )
+  .map(([local, domain]) => `${local.join('')}@${domain.join('')}.com`)
+
+describe('Token Vault', () => {
+  describe('Tokenization', () => {
+    it('should give each distinct value its own indexed token', () => {
+      const vault = new TokenVault()
+      const result = sanitize(
+        'Mail alice@example.com, then bob@example.com, then alice@example.com',
+        { tokenVault: vault }
+      )
+
+      expect(result.redactedMessage).toBe('Mail <EMAIL_1>, then <EMAIL_2>, then <EMAIL_1>')
+      expect(result.redactedItems).toEqual([{ type: 'EMAIL', count: 3, strategy: 'tokenize' }])
+      expect(vault.size).toBe(2)
+    })
+
+    it('should index each PII type independently', () => {
+      const vault = new TokenVault()
+      const result = sanitize(
+        'a@example.com paid with 4111 1111 1111 1111 and 4111-1111-1111-1111',
+        { tokenVault: vault }
+      )
+
+      expect(result.redactedMessage).toBe('<EMAIL_1> paid with <CREDIT_CARD_1> and <CREDIT_CARD_1>')
+    })
+
+    it('should treat emails case-insensitively', () => {
+      const vault = new TokenVault()
+      expect(vault.tokenize('EMAIL', 'Alice@Example.com')).toBe(
+        vault.tokenize('EMAIL', 'alice@example.com')
+      )
+    })
+  })
+
+  describe('Rehydration', () => {
+    it('should restore the original values of issued tokens', () => {
+      fc.assert(
+        fc.property(fc.uniqueArray(realisticEmail, { minLength: 1, maxLength: 5 }), (emails) => {
+          const vault = new TokenVault()
+          const message = `Contacts: ${emails.join(' and ')}`
+          const result = sanitize(message, { tokenVault: vault })
+
+          for (const email of emails) {
+            expect(result.redactedMessage).not.toContain(email)
+          }
+          expect(vault.rehydrate(result.redactedMessage)).toBe(message)
+        }),
+        { numRuns: 50 }
+      )
+    })
+
+    it('should leave tokens the vault did not issue untouched', () => {
+      const vault = new TokenVault()
+      vault.tokenize('EMAIL', 'alice@example.com')
+
+      expect(vault.rehydrate('Reply to <EMAIL_1> and <EMAIL_2>')).toBe(
+        'Reply to alice@example.com and <EMAIL_2>'
+      )
+    })
+  })
+
+  describe('Serialization', () => {
+    it('should never expose the mapping when serialized', () => {
+      const vault = new TokenVault()
+      vault.tokenize('SSN', '123-45-6789')
+
+      const serialized = JSON.stringify({ vault })
+      expect(serialized).not.toContain('123-45-6789')
+      expect(serialized).toBe('{"vault":{"size":1}}')
+    })
+  })
+})